@@ -1,8 +1,22 @@
 import { DynamicModule, Module, Provider } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { AutodeskAccService } from './services/autodesk-acc.service';
 import { AutodeskAuthService } from './services/autodesk-auth.service';
+import { AutodeskHttpClient } from './services/autodesk-http-client.service';
 import { AutodeskDataManagementService } from './services/autodesk-data-management.service';
+import { AutodeskOssService } from './services/autodesk-oss.service';
 import { AutodeskProjectService } from './services/autodesk-project.service';
+import { ProjectHubResolver } from './services/project-hub-resolver.service';
+import { AutodeskPathService } from './services/autodesk-path.service';
+import { FolderSyncService } from './services/folder-sync.service';
+import { FolderWatcherService } from './services/folder-watcher.service';
+import { AutodeskModelDerivativeService } from './services/autodesk-model-derivative.service';
+import { AutodeskWebhooksService } from './services/autodesk-webhooks.service';
+import { AutodeskAuthController } from './controllers/autodesk-auth.controller';
+import { AutodeskWebhooksController } from './controllers/autodesk-webhooks.controller';
+import { AutodeskEventBus } from './events/autodesk-event-bus';
+import { AutodeskUserContext } from './context/autodesk-user.context';
+import { AutodeskUserInterceptor } from './interceptors/autodesk-user.interceptor';
 import { AUTODESK_ACC_OPTIONS } from './constants';
 import { AutodeskAccModuleOptions, AutodeskAccModuleAsyncOptions } from './interfaces';
 
@@ -11,17 +25,41 @@ export class AutodeskAccModule {
   static forRoot(options: AutodeskAccModuleOptions): DynamicModule {
     return {
       module: AutodeskAccModule,
+      imports: [DiscoveryModule],
+      controllers: [
+        ...(options.authRoutes ? [AutodeskAuthController] : []),
+        ...(options.webhooks ? [AutodeskWebhooksController] : []),
+      ],
       providers: [
         {
           provide: AUTODESK_ACC_OPTIONS,
           useValue: options,
         },
+        AutodeskUserContext,
+        AutodeskUserInterceptor,
         AutodeskAuthService,
+        AutodeskHttpClient,
+        AutodeskOssService,
         AutodeskDataManagementService,
         AutodeskProjectService,
+        ProjectHubResolver,
+        AutodeskPathService,
+        FolderSyncService,
+        FolderWatcherService,
+        AutodeskModelDerivativeService,
+        AutodeskWebhooksService,
+        AutodeskEventBus,
+        AutodeskAccService,
+      ],
+      exports: [
         AutodeskAccService,
+        AutodeskHttpClient,
+        ProjectHubResolver,
+        AutodeskUserContext,
+        AutodeskUserInterceptor,
+        AutodeskEventBus,
+        AUTODESK_ACC_OPTIONS,
       ],
-      exports: [AutodeskAccService],
       global: options.isGlobal ?? false,
     };
   }
@@ -29,15 +67,38 @@ export class AutodeskAccModule {
   static forRootAsync(options: AutodeskAccModuleAsyncOptions): DynamicModule {
     return {
       module: AutodeskAccModule,
-      imports: options.imports || [],
+      imports: [...(options.imports || []), DiscoveryModule],
+      controllers: [
+        ...(options.authRoutes ? [AutodeskAuthController] : []),
+        ...(options.webhooks ? [AutodeskWebhooksController] : []),
+      ],
       providers: [
         ...this.createAsyncProviders(options),
+        AutodeskUserContext,
+        AutodeskUserInterceptor,
         AutodeskAuthService,
+        AutodeskHttpClient,
+        AutodeskOssService,
         AutodeskDataManagementService,
         AutodeskProjectService,
+        ProjectHubResolver,
+        AutodeskPathService,
+        FolderSyncService,
+        FolderWatcherService,
+        AutodeskModelDerivativeService,
+        AutodeskWebhooksService,
+        AutodeskEventBus,
+        AutodeskAccService,
+      ],
+      exports: [
         AutodeskAccService,
+        AutodeskHttpClient,
+        ProjectHubResolver,
+        AutodeskUserContext,
+        AutodeskUserInterceptor,
+        AutodeskEventBus,
+        AUTODESK_ACC_OPTIONS,
       ],
-      exports: [AutodeskAccService],
       global: options.isGlobal ?? false,
     };
   }
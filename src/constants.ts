@@ -1,3 +1,28 @@
 export const AUTODESK_ACC_OPTIONS = 'AUTODESK_ACC_OPTIONS';
 export const AUTODESK_BASE_URL = 'https://developer.api.autodesk.com';
-export const AUTODESK_AUTH_URL = 'https://developer.api.autodesk.com/authentication/v2/token';
\ No newline at end of file
+export const AUTODESK_AUTH_URL = 'https://developer.api.autodesk.com/authentication/v2/token';
+export const AUTODESK_AUTH_PATH = '/authentication/v2';
+export const AUTODESK_USERINFO_URL = 'https://api.userprofile.autodesk.com/userinfo';
+export const AUTODESK_HTTP_TIMEOUT = 30000;
+export const AUTODESK_HTTP_RETRIES = 3;
+export const AUTODESK_HTTP_RETRY_BASE_DELAY = 500;
+export const AUTODESK_HTTP_RETRY_MAX_DELAY = 30000;
+export const AUTODESK_TOKEN_EXPIRY_BUFFER = 5 * 60 * 1000;
+export const AUTODESK_TOKEN_REFRESH_BUFFER = 10 * 60 * 1000;
+export const AUTODESK_HUB_CACHE_TTL = 60 * 60 * 1000;
+export const AUTODESK_HUB_MISS_CACHE_TTL = 60 * 1000;
+export const AUTODESK_PATH_CACHE_TTL = 60 * 1000;
+export const AUTODESK_USER_RESOLVER = 'AUTODESK_USER_RESOLVER';
+export const AUTODESK_EVENT_HANDLER = 'AUTODESK_EVENT_HANDLER';
+export const AUTODESK_UPLOAD_PART_SIZE = 10 * 1024 * 1024;
+export const AUTODESK_MIN_UPLOAD_PART_SIZE = 5 * 1024 * 1024;
+export const AUTODESK_UPLOAD_CONCURRENCY = 4;
+export const AUTODESK_BULK_UPLOAD_CONCURRENCY = 3;
+export const AUTODESK_MAX_UPLOAD_URLS = 25;
+export const AUTODESK_TREE_CONCURRENCY = 5;
+export const AUTODESK_SYNC_MANIFEST = '.autodesk-sync.json';
+export const AUTODESK_TRANSLATION_POLL_INTERVAL = 5000;
+export const AUTODESK_TRANSLATION_TIMEOUT = 30 * 60 * 1000;
+export const AUTODESK_PROPERTIES_PAGE_SIZE = 1000;
+export const AUTODESK_WATCH_INTERVAL = 60 * 1000;
+export const AUTODESK_WATCH_MAX_INTERVAL = 15 * 60 * 1000;
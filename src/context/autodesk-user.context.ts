@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface AutodeskUserStore {
+  userId: string;
+}
+
+// Shared by every module instance so decorators and services see the same context
+const storage = new AsyncLocalStorage<AutodeskUserStore>();
+
+/**
+ * Tracks the user that Autodesk requests are made for within an async call chain
+ */
+@Injectable()
+export class AutodeskUserContext {
+  /**
+   * Run a function with every Autodesk request inside it made as the given user
+   */
+  run<T>(userId: string, fn: () => T): T {
+    return storage.run({ userId }, fn);
+  }
+
+  /**
+   * Get the user of the current call chain, if any
+   */
+  getUserId(): string | undefined {
+    return storage.getStore()?.userId;
+  }
+}
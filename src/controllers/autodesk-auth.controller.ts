@@ -0,0 +1,147 @@
+import {
+  Controller,
+  Get,
+  Inject,
+  Logger,
+  Post,
+  Query,
+  Redirect,
+  Req,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AUTODESK_ACC_OPTIONS } from '../constants';
+import { defaultUserIdResolver } from '../interceptors/autodesk-user.interceptor';
+import {
+  AutodeskAccModuleOptions,
+  AutodeskAuthRoutesOptions,
+} from '../interfaces/module-options.interface';
+import { AutodeskAuthService } from '../services/autodesk-auth.service';
+import { createPkcePair, openState, sealState } from '../utils/oauth-state.util';
+
+/**
+ * 3-legged OAuth routes, registered through AutodeskAccModule.forRoot({ authRoutes })
+ */
+@Controller('autodesk')
+export class AutodeskAuthController {
+  private readonly logger = new Logger(AutodeskAuthController.name);
+
+  constructor(
+    private readonly authService: AutodeskAuthService,
+    @Inject(AUTODESK_ACC_OPTIONS)
+    private readonly options: AutodeskAccModuleOptions,
+  ) {}
+
+  /**
+   * Redirect to the Autodesk sign-in page
+   */
+  @Get('login')
+  @Redirect()
+  login(@Req() request: any, @Query('returnTo') returnTo?: string) {
+    const routes = this.getRoutesOptions();
+    const usePkce = routes.pkce ?? !this.options.clientSecret;
+    const pkce = usePkce ? createPkcePair() : undefined;
+    const userId = this.resolveUserId(request);
+
+    const state = sealState(
+      {
+        expiresAt: Date.now() + (routes.stateTtl ?? 600) * 1000,
+        userId,
+        returnTo: this.isLocalPath(returnTo) ? returnTo : undefined,
+        codeVerifier: pkce?.codeVerifier,
+      },
+      routes.stateSecret,
+    );
+
+    // Without an app user the token is keyed by the Autodesk profile, read in the callback
+    const extraScopes = userId ? [] : ['user-profile:read'];
+    return {
+      url: this.authService.getAuthorizationUrl(state, pkce?.codeChallenge, extraScopes),
+    };
+  }
+
+  /**
+   * Handle the Autodesk redirect: validate state, exchange the code and store the token
+   */
+  @Get('callback')
+  @Redirect()
+  async callback(
+    @Req() request: any,
+    @Query('code') code?: string,
+    @Query('state') sealed?: string,
+    @Query('error') error?: string,
+  ) {
+    const routes = this.getRoutesOptions();
+
+    try {
+      if (error || !code) {
+        throw new UnauthorizedException(`Autodesk sign-in failed: ${error || 'missing code'}`);
+      }
+
+      const state = sealed ? openState(sealed, routes.stateSecret) : null;
+      if (!state) {
+        throw new UnauthorizedException('Invalid or expired OAuth state');
+      }
+
+      // The callback must come from the same app user that started the login; otherwise a
+      // state sealed for one user could store someone else's Autodesk token under it
+      if (state.userId && this.resolveUserId(request) !== state.userId) {
+        throw new UnauthorizedException('OAuth state belongs to a different user');
+      }
+
+      if (state.userId) {
+        await this.authService.authenticateUser(state.userId, code, state.codeVerifier);
+      } else {
+        // No app user signed in, key the token by the Autodesk user instead
+        const authContext = await this.authService.getAccessTokenFromCode(
+          code,
+          state.codeVerifier,
+        );
+        const profile = await this.authService.getUserProfile(authContext.accessToken);
+        await this.authService.setUserToken(profile.sub, authContext);
+      }
+
+      return { url: state.returnTo || routes.successRedirect || '/' };
+    } catch (callbackError) {
+      this.logger.error('OAuth callback failed', callbackError.message);
+      if (routes.failureRedirect) {
+        return { url: routes.failureRedirect };
+      }
+      throw callbackError;
+    }
+  }
+
+  /**
+   * Revoke and forget the current user's Autodesk tokens
+   */
+  @Post('logout')
+  @Redirect()
+  async logout(@Req() request: any) {
+    const routes = this.getRoutesOptions();
+    const userId = this.resolveUserId(request);
+    if (!userId) {
+      throw new UnauthorizedException('No signed-in user to log out');
+    }
+
+    await this.authService.logoutUser(userId);
+    return { url: routes.logoutRedirect || '/' };
+  }
+
+  private getRoutesOptions(): AutodeskAuthRoutesOptions {
+    if (!this.options.authRoutes) {
+      throw new UnauthorizedException('Autodesk auth routes are not configured');
+    }
+    return this.options.authRoutes;
+  }
+
+  private resolveUserId(request: any): string | undefined {
+    const userId = (this.options.userIdResolver || defaultUserIdResolver)(request);
+    return userId ? String(userId) : undefined;
+  }
+
+  /**
+   * Only allow same-site return paths, never absolute or protocol-relative URLs
+   */
+  private isLocalPath(path?: string): path is string {
+    return !!path && path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\');
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  Inject,
+  Logger,
+  Post,
+  Req,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AUTODESK_ACC_OPTIONS } from '../constants';
+import { AutodeskEventBus } from '../events/autodesk-event-bus';
+import { AutodeskAccModuleOptions } from '../interfaces/module-options.interface';
+import { AutodeskEvent } from '../interfaces/webhook.interface';
+import { verifyWebhookSignature } from '../utils/webhook-signature.util';
+
+/**
+ * Webhook callback route, registered through AutodeskAccModule.forRoot({ webhooks })
+ * Create the app with NestFactory.create(AppModule, { rawBody: true }) so the signature
+ * is checked against the exact bytes Autodesk sent
+ */
+@Controller('autodesk')
+export class AutodeskWebhooksController {
+  private readonly logger = new Logger(AutodeskWebhooksController.name);
+
+  constructor(
+    private readonly eventBus: AutodeskEventBus,
+    @Inject(AUTODESK_ACC_OPTIONS)
+    private readonly options: AutodeskAccModuleOptions,
+  ) {}
+
+  /**
+   * Verify a callback's signature and publish it as an AutodeskEvent
+   */
+  @Post('webhooks')
+  @HttpCode(200)
+  receive(
+    @Req() request: any,
+    @Body() body: any,
+    @Headers('x-adsk-signature') signature?: string,
+  ) {
+    const secret = this.options.webhooks?.secret;
+    if (!secret) {
+      throw new UnauthorizedException('Autodesk webhooks are not configured');
+    }
+
+    // Without rawBody the re-serialized JSON only matches when Autodesk's formatting does
+    const rawBody: Buffer | string = request.rawBody ?? JSON.stringify(body);
+    if (!verifyWebhookSignature(rawBody, signature, secret)) {
+      this.logger.warn(`Rejected a webhook callback with an invalid signature`);
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    const event: AutodeskEvent = {
+      event: body.hook?.event,
+      resourceUrn: body.resourceUrn,
+      scope: body.hook?.scope?.folder,
+      hookId: body.hook?.hookId,
+      hookAttribute: body.hook?.hookAttribute,
+      payload: body.payload ?? {},
+      receivedAt: new Date(),
+    };
+
+    this.eventBus.emit(event);
+    return { received: true };
+  }
+}
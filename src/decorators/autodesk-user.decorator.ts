@@ -0,0 +1,15 @@
+import { applyDecorators, SetMetadata, UseInterceptors } from '@nestjs/common';
+import { AUTODESK_USER_RESOLVER } from '../constants';
+import { AutodeskUserInterceptor } from '../interceptors/autodesk-user.interceptor';
+import { AutodeskUserIdResolver } from '../interfaces/module-options.interface';
+
+/**
+ * Make Autodesk calls in a controller or handler on behalf of the request's user
+ * Optionally pass how to read the user id from the request
+ */
+export function AutodeskUser(resolver?: AutodeskUserIdResolver) {
+  return applyDecorators(
+    SetMetadata(AUTODESK_USER_RESOLVER, resolver),
+    UseInterceptors(AutodeskUserInterceptor),
+  );
+}
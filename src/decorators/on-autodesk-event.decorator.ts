@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { AUTODESK_EVENT_HANDLER } from '../constants';
+import { AutodeskDmEventType } from '../interfaces/webhook.interface';
+
+/**
+ * Call this provider method for every Autodesk event of the given type(s)
+ * Use '*' to receive all events
+ */
+export function OnAutodeskEvent(...events: Array<AutodeskDmEventType | '*' | string>) {
+  return SetMetadata(AUTODESK_EVENT_HANDLER, events);
+}
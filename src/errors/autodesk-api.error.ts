@@ -0,0 +1,167 @@
+import { BadRequestException, HttpException } from '@nestjs/common';
+
+/**
+ * Details of an Autodesk API error response
+ */
+export interface AutodeskApiErrorDetails {
+  status: number;
+  // Autodesk error code, e.g. ERR_BAD_INPUT or BIM360DM_ERROR
+  code?: string;
+  detail?: string;
+  requestId?: string;
+  // HTTP method and path of the failed request, e.g. "GET /data/v1/projects/b.123/items/x"
+  endpoint?: string;
+  // Raw response body
+  body?: any;
+  // The request was made with the app's own 2-legged token rather than a user's
+  appCredentials?: boolean;
+}
+
+/**
+ * Base class for errors returned by Autodesk APIs
+ */
+export class AutodeskApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly detail?: string;
+  readonly requestId?: string;
+  readonly endpoint?: string;
+  readonly body?: any;
+  readonly appCredentials?: boolean;
+
+  constructor(message: string, details: AutodeskApiErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.code = details.code;
+    this.detail = details.detail;
+    this.requestId = details.requestId;
+    this.endpoint = details.endpoint;
+    this.body = details.body;
+    this.appCredentials = details.appCredentials;
+  }
+}
+
+export class AutodeskBadRequestError extends AutodeskApiError {}
+
+export class AutodeskUnauthorizedError extends AutodeskApiError {}
+
+export class AutodeskForbiddenError extends AutodeskApiError {}
+
+export class AutodeskNotFoundError extends AutodeskApiError {}
+
+export class AutodeskConflictError extends AutodeskApiError {}
+
+export class AutodeskRateLimitError extends AutodeskApiError {
+  // Seconds to wait before retrying, from the Retry-After header
+  readonly retryAfter?: number;
+
+  constructor(message: string, details: AutodeskApiErrorDetails & { retryAfter?: number }) {
+    super(message, details);
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+export class AutodeskServerError extends AutodeskApiError {}
+
+/**
+ * Network failures and timeouts, where no response was received
+ */
+export class AutodeskNetworkError extends AutodeskApiError {}
+
+/**
+ * A Model Derivative translation that failed or did not finish in time
+ * The last manifest is kept in `body`
+ */
+export class AutodeskTranslationError extends AutodeskApiError {}
+
+/**
+ * Convert an axios error into the matching AutodeskApiError
+ */
+export function createAutodeskApiError(
+  error: any,
+  endpoint?: string,
+  appCredentials?: boolean,
+): AutodeskApiError {
+  if (error instanceof AutodeskApiError) {
+    return error;
+  }
+
+  const response = error.response;
+  if (!response) {
+    return new AutodeskNetworkError(
+      `${endpoint ?? 'Autodesk request'} failed: ${error.message}`,
+      { status: 0, code: error.code, detail: error.message, endpoint, appCredentials },
+    );
+  }
+
+  const body = response.data;
+  // Data Management uses JSON:API errors, OSS and other APIs use flat bodies
+  const apiError = Array.isArray(body?.errors) ? body.errors[0] : body;
+  const details: AutodeskApiErrorDetails = {
+    status: response.status,
+    code: apiError?.code ?? apiError?.errorCode,
+    detail:
+      apiError?.detail ??
+      apiError?.developerMessage ??
+      apiError?.reason ??
+      apiError?.message ??
+      apiError?.title ??
+      (typeof body === 'string' ? body : undefined),
+    requestId:
+      response.headers?.['x-ads-request-id'] ??
+      response.headers?.['x-request-id'] ??
+      apiError?.id,
+    endpoint,
+    body,
+    appCredentials,
+  };
+  const message = `${endpoint ?? 'Autodesk request'} failed with ${response.status}${
+    details.detail ? `: ${details.detail}` : ''
+  }`;
+
+  switch (response.status) {
+    case 400:
+      return new AutodeskBadRequestError(message, details);
+    case 401:
+      return new AutodeskUnauthorizedError(message, details);
+    case 403:
+      return new AutodeskForbiddenError(message, details);
+    case 404:
+      return new AutodeskNotFoundError(message, details);
+    case 409:
+      return new AutodeskConflictError(message, details);
+    case 429: {
+      const retryAfter = Number(response.headers?.['retry-after']);
+      return new AutodeskRateLimitError(message, {
+        ...details,
+        retryAfter: Number.isNaN(retryAfter) ? undefined : retryAfter,
+      });
+    }
+    default:
+      return response.status >= 500
+        ? new AutodeskServerError(message, details)
+        : new AutodeskApiError(message, details);
+  }
+}
+
+/**
+ * Rethrow AutodeskApiErrors and Nest HTTP exceptions unchanged; anything else becomes the
+ * fallback, or a BadRequestException carrying it when given a message
+ */
+export function rethrowAs(error: unknown, fallback: string | Error): never {
+  if (error instanceof AutodeskApiError || error instanceof HttpException) {
+    throw error;
+  }
+  throw typeof fallback === 'string' ? new BadRequestException(fallback) : fallback;
+}
+
+/**
+ * What to log for a failed call: the Autodesk response body when there is one
+ */
+export function describeError(error: any): unknown {
+  if (error instanceof AutodeskApiError) {
+    return error.body ?? error.message;
+  }
+  return error?.response?.data || error?.message;
+}
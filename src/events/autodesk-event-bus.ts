@@ -0,0 +1,78 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { Observable, Subject, Subscription, filter } from 'rxjs';
+import { AUTODESK_EVENT_HANDLER } from '../constants';
+import { AutodeskDmEventPayload, AutodeskEvent } from '../interfaces/webhook.interface';
+
+/**
+ * Delivers Autodesk events (webhook callbacks, folder watchers) as an RxJS stream
+ * and to provider methods decorated with @OnAutodeskEvent
+ */
+@Injectable()
+export class AutodeskEventBus implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AutodeskEventBus.name);
+  private readonly subject = new Subject<AutodeskEvent>();
+  private readonly subscriptions: Subscription[] = [];
+
+  readonly events$: Observable<AutodeskEvent> = this.subject.asObservable();
+
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+  ) {}
+
+  /**
+   * Publish an event to the stream and the handlers
+   */
+  emit(event: AutodeskEvent): void {
+    this.subject.next(event);
+  }
+
+  /**
+   * Stream of the events of the given type(s)
+   */
+  on<T = AutodeskDmEventPayload>(...events: string[]): Observable<AutodeskEvent<T>> {
+    return this.events$.pipe(
+      filter((event) => events.includes(event.event)),
+    ) as Observable<AutodeskEvent<T>>;
+  }
+
+  onModuleInit() {
+    for (const wrapper of this.discovery.getProviders()) {
+      const { instance } = wrapper;
+      // Request-scoped providers have no instance to call
+      if (!instance || typeof instance !== 'object' || !wrapper.isDependencyTreeStatic()) {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance);
+      for (const methodName of this.metadataScanner.getAllMethodNames(prototype)) {
+        const events = this.reflector.get<string[]>(AUTODESK_EVENT_HANDLER, instance[methodName]);
+        if (events?.length) {
+          this.subscriptions.push(this.subscribe(instance, methodName, events));
+        }
+      }
+    }
+  }
+
+  onModuleDestroy() {
+    this.subscriptions.forEach((subscription) => subscription.unsubscribe());
+    this.subject.complete();
+  }
+
+  private subscribe(instance: any, methodName: string, events: string[]): Subscription {
+    const source = events.includes('*') ? this.events$ : this.on(...events);
+    const handlerName = `${instance.constructor.name}.${methodName}`;
+    this.logger.log(`${handlerName} handles ${events.join(', ')}`);
+
+    // A failing handler is logged and never stops the stream or other handlers
+    return source.subscribe((event) => {
+      Promise.resolve()
+        .then(() => instance[methodName](event))
+        .catch((error) =>
+          this.logger.error(`${handlerName} failed for ${event.event}`, error?.stack),
+        );
+    });
+  }
+}
@@ -0,0 +1,49 @@
+import { ArgumentsHost, Catch, HttpException, HttpStatus } from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { AutodeskApiError, AutodeskNetworkError } from '../errors/autodesk-api.error';
+
+/**
+ * Maps AutodeskApiErrors to HTTP responses with the Autodesk details
+ * Register with @UseFilters(AutodeskExceptionFilter) or as APP_FILTER
+ */
+@Catch(AutodeskApiError)
+export class AutodeskExceptionFilter extends BaseExceptionFilter {
+  catch(exception: AutodeskApiError, host: ArgumentsHost) {
+    const status = this.getStatus(exception);
+
+    super.catch(
+      new HttpException(
+        {
+          statusCode: status,
+          error: exception.name,
+          message: exception.message,
+          upstreamStatus: exception.status,
+          code: exception.code,
+          detail: exception.detail,
+          requestId: exception.requestId,
+        },
+        status,
+      ),
+      host,
+    );
+  }
+
+  /**
+   * Client errors pass through; upstream failures become 502/504
+   * A 401 for the app's own token is a server misconfiguration, not the caller's fault, so it is a
+   * 502; a user's token being rejected and every 403 pass through unchanged
+   */
+  private getStatus(exception: AutodeskApiError): number {
+    if (exception instanceof AutodeskNetworkError) {
+      return HttpStatus.GATEWAY_TIMEOUT;
+    }
+    if (
+      exception.status >= 500 ||
+      exception.status < 400 ||
+      (exception.status === HttpStatus.UNAUTHORIZED && exception.appCredentials)
+    ) {
+      return HttpStatus.BAD_GATEWAY;
+    }
+    return exception.status;
+  }
+}
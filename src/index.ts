@@ -1,7 +1,28 @@
 export * from './autodesk-acc.module';
 export * from './services/autodesk-acc.service';
 export * from './services/autodesk-auth.service';
+export * from './services/autodesk-http-client.service';
 export * from './services/autodesk-project.service';
 export * from './services/autodesk-data-management.service';
+export * from './services/autodesk-oss.service';
+export * from './services/project-hub-resolver.service';
+export * from './services/autodesk-path.service';
+export * from './services/folder-sync.service';
+export * from './services/folder-watcher.service';
+export * from './services/autodesk-model-derivative.service';
+export * from './services/autodesk-webhooks.service';
+export * from './controllers/autodesk-auth.controller';
+export * from './controllers/autodesk-webhooks.controller';
+export * from './events/autodesk-event-bus';
+export * from './errors/autodesk-api.error';
+export * from './filters/autodesk-exception.filter';
+export * from './context/autodesk-user.context';
+export * from './interceptors/autodesk-user.interceptor';
+export * from './decorators/autodesk-user.decorator';
+export * from './decorators/on-autodesk-event.decorator';
+export * from './stores/in-memory-token.store';
+export * from './stores/redis-token.store';
+export * from './utils/safety.util';
+export * from './utils/webhook-signature.util';
 export * from './interfaces';
 export * from './constants';
\ No newline at end of file
@@ -0,0 +1,59 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable } from 'rxjs';
+import { AUTODESK_ACC_OPTIONS, AUTODESK_USER_RESOLVER } from '../constants';
+import { AutodeskUserContext } from '../context/autodesk-user.context';
+import {
+  AutodeskAccModuleOptions,
+  AutodeskUserIdResolver,
+} from '../interfaces/module-options.interface';
+
+/**
+ * Default lookup of the logged-in user on the request (e.g. set by Passport)
+ */
+export const defaultUserIdResolver: AutodeskUserIdResolver = (request) =>
+  request.user?.id ?? request.user?.userId ?? request.user?.sub;
+
+/**
+ * Runs the request handler as the request's user, so Autodesk calls use their token
+ * Requests without a user fall back to the 2-legged token
+ */
+@Injectable()
+export class AutodeskUserInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly userContext: AutodeskUserContext,
+    @Inject(AUTODESK_ACC_OPTIONS)
+    private readonly options: AutodeskAccModuleOptions,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const resolver =
+      this.reflector.getAllAndOverride<AutodeskUserIdResolver | undefined>(
+        AUTODESK_USER_RESOLVER,
+        [context.getHandler(), context.getClass()],
+      ) ||
+      this.options.userIdResolver ||
+      defaultUserIdResolver;
+
+    const userId = resolver(context.switchToHttp().getRequest());
+    if (!userId) {
+      return next.handle();
+    }
+
+    // The handler has to be both started and subscribed inside the user context
+    return new Observable((subscriber) =>
+      this.userContext.run(String(userId), () => next.handle().subscribe(subscriber)),
+    );
+  }
+}
@@ -10,3 +10,16 @@ export interface AutodeskAuthContext {
   expiresAt: number;
   refreshToken?: string;
 }
+
+export interface AutodeskUserProfile {
+  sub: string;
+  name?: string;
+  email?: string;
+  preferred_username?: string;
+}
+
+export interface AutodeskTokenStore {
+  get(userId: string): Promise<AutodeskAuthContext | null>;
+  set(userId: string, context: AutodeskAuthContext): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
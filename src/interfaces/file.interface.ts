@@ -1,3 +1,5 @@
+import { Readable } from 'stream';
+
 export interface AutodeskFolder {
   id: string;
   type: string;
@@ -16,6 +18,49 @@ export interface AutodeskFolder {
       data?: any;
     };
   };
+  relationships?: {
+    parent?: {
+      data: {
+        type: string;
+        id: string;
+      };
+    };
+  };
+}
+
+export interface FolderTreeOptions {
+  // Levels below the root to include (default: unlimited)
+  maxDepth?: number;
+  // Keep each folder's items on its node (default: false, only counts)
+  includeItems?: boolean;
+  // Folder listings fetched in parallel (default: 5)
+  concurrency?: number;
+  // Return false to leave a folder and its subtree out of the tree
+  filter?: (folder: AutodeskFolder, path: string) => boolean;
+}
+
+export interface AutodeskFolderTreeNode {
+  id: string;
+  name: string;
+  // Full path from the project top folders, e.g. "/Project Files/Structural"
+  // Starts at the root folder's name when its parents could not be looked up
+  path: string;
+  parentId: string | null;
+  depth: number;
+  // Undefined for the virtual project root when no root folder is given
+  folder?: AutodeskFolder;
+  // Undefined when the folder was not listed (depth limit or failure)
+  folderCount?: number;
+  itemCount?: number;
+  items?: AutodeskItem[];
+  children: AutodeskFolderTreeNode[];
+  // Set when the folder has subfolders beyond maxDepth
+  truncated?: boolean;
+  // Set when listing this folder failed; the rest of the tree is still returned
+  error?: {
+    message: string;
+    status?: number;
+  };
 }
 
 export interface AutodeskItem {
@@ -29,20 +74,186 @@ export interface AutodeskItem {
     lastModifiedTime: string;
     lastModifiedUserId: string;
     fileType: string;
+    hidden?: boolean;
+    extension?: {
+      type: string;
+      version: string;
+      data?: any;
+    };
+  };
+  relationships?: {
+    parent?: {
+      data: {
+        type: string;
+        id: string;
+      };
+    };
+    tip?: {
+      data: {
+        type: string;
+        id: string;
+      };
+    };
+  };
+}
+
+export interface AutodeskVersion {
+  id: string;
+  type: string;
+  attributes: {
+    name: string;
+    displayName: string;
+    createTime: string;
+    createUserId: string;
+    createUserName?: string;
+    lastModifiedTime: string;
+    lastModifiedUserId: string;
+    lastModifiedUserName?: string;
+    versionNumber: number;
+    mimeType?: string;
+    fileType?: string;
+    storageSize?: number;
     extension?: {
       type: string;
       version: string;
       data?: any;
     };
   };
+  relationships?: {
+    item?: {
+      data: {
+        type: string;
+        id: string;
+      };
+    };
+    storage?: {
+      data: {
+        type: string;
+        id: string;
+      };
+    };
+    derivatives?: {
+      data: {
+        type: string;
+        id: string;
+      };
+    };
+  };
+}
+
+export interface AutodeskVersionDownloadInfo {
+  versionId: string;
+  versionNumber?: number;
+  fileName: string;
+  storageId: string;
+  bucketKey: string;
+  objectKey: string;
+  url: string;
+  expiresAt: number;
+  size?: number;
+  sha1?: string;
+  contentType?: string;
+}
+
+export interface UploadProgress {
+  bytesSent: number;
+  totalBytes?: number;
+  partsCompleted: number;
+  totalParts?: number;
 }
 
 export interface UploadFileOptions {
   fileName: string;
   folderId: string;
   projectId: string;
-  fileBuffer: Buffer;
+  // Exactly one of fileBuffer, fileStream or filePath
+  fileBuffer?: Buffer;
+  fileStream?: Readable;
+  filePath?: string;
+  // Total size of fileStream, used for progress reporting
+  fileSize?: number;
   contentType?: string;
+  partSize?: number;
+  concurrency?: number;
+  onProgress?: (progress: UploadProgress) => void;
+  // What to do when an item with the same name already exists in the folder
+  onConflict?: UploadConflictPolicy;
+}
+
+export type UploadConflictPolicy = 'fail' | 'newVersion' | 'rename' | 'skip';
+
+export type UploadFileToPathOptions = Omit<UploadFileOptions, 'projectId' | 'folderId' | 'fileName'>;
+
+export type AutodeskPathResolution =
+  | { type: 'folders'; path: string; folder: AutodeskFolder; parentId?: string }
+  | { type: 'items'; path: string; item: AutodeskItem; parentId: string };
+
+export type UploadVersionOptions = Omit<UploadFileOptions, 'projectId' | 'folderId' | 'onConflict'>;
+
+export type BulkUploadFile = Omit<UploadFileOptions, 'projectId' | 'folderId'>;
+
+export interface BulkUploadOptions {
+  // Files uploaded in parallel (default: 3); each file also uploads its parts in parallel
+  concurrency?: number;
+  // Keep going after a failed file (default: false, no new uploads are started)
+  continueOnError?: boolean;
+  // JSON file recording finished uploads; a rerun skips the files listed in it
+  checkpointFile?: string;
+  // Default conflict policy for files that do not set their own
+  onConflict?: UploadConflictPolicy;
+  // Plan the uploads instead of sending them
+  dryRun?: boolean;
+  onFileComplete?: (result: BulkUploadFileResult) => void;
+}
+
+// resumed: finished in an earlier run according to the checkpoint
+// skipped: an item with the same name already exists and the conflict policy is skip
+// notStarted: not attempted because an earlier failure stopped the run
+// planned: not sent because of dryRun
+export type BulkUploadStatus =
+  | 'uploaded'
+  | 'resumed'
+  | 'skipped'
+  | 'failed'
+  | 'notStarted'
+  | 'planned';
+
+export interface BulkUploadFileResult {
+  fileName: string;
+  status: BulkUploadStatus;
+  itemId?: string;
+  versionId?: string;
+  bytes?: number;
+  durationMs?: number;
+  error?: {
+    message: string;
+    status?: number;
+  };
+}
+
+export interface BulkUploadReport {
+  // In the order of the files passed in
+  files: BulkUploadFileResult[];
+  uploaded: number;
+  resumed: number;
+  skipped: number;
+  planned: number;
+  failed: number;
+  // True when a failure stopped the run before every file was attempted
+  aborted: boolean;
+  // Bytes sent in this run
+  bytes: number;
+  durationMs: number;
+}
+
+export interface BulkUploadCheckpoint {
+  version: 2;
+  projectId: string;
+  // Finished uploads by target folder and source, "{folderId}:{filePath or fileName}"
+  files: Record<
+    string,
+    { itemId: string; versionId?: string; bytes?: number; completedAt: string }
+  >;
 }
 
 export interface AutodeskStorageLocation {
@@ -51,4 +262,27 @@ export interface AutodeskStorageLocation {
   objectKey: string;
   size: number;
   location: string;
-}
\ No newline at end of file
+}
+
+export interface DownloadItemOptions {
+  versionId?: string;
+}
+
+export interface AutodeskDownloadResult {
+  stream: Readable;
+  fileName: string;
+  contentType: string;
+  size: number;
+  versionId: string;
+  storageId: string;
+}
+
+export interface DeleteFolderOptions {
+  // Delete the folder's items and subfolders first (default: fail if not empty)
+  recursive?: boolean;
+}
+
+export interface AutodeskDeletedContents {
+  folders: AutodeskFolder[];
+  items: AutodeskItem[];
+}
@@ -0,0 +1,10 @@
+import 'axios';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Scopes the 2-legged token for this request must carry (default: module scopes)
+    autodeskScopes?: string[];
+    // Use the 2-legged token even inside runAsUser, e.g. for the app's own buckets
+    autodeskAppToken?: boolean;
+  }
+}
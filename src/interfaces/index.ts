@@ -1,4 +1,12 @@
 export * from './module-options.interface';
 export * from './auth.interface';
 export * from './project.interface';
-export * from './file.interface';
\ No newline at end of file
+export * from './file.interface';
+export * from './pagination.interface';
+export * from './http.interface';
+export * from './safety.interface';
+export * from './sync.interface';
+export * from './model-derivative.interface';
+export * from './webhook.interface';
+export * from './watch.interface';
+export * from './oss.interface';
\ No newline at end of file
@@ -0,0 +1,187 @@
+import { Readable } from 'stream';
+import { AutodeskItem, AutodeskVersion, UploadFileOptions } from './file.interface';
+
+export type TranslationOutputType = 'svf2' | 'svf' | 'obj' | 'ifc' | 'stl' | 'step' | 'iges';
+
+export interface TranslationOutputFormat {
+  type: TranslationOutputType;
+  // For svf/svf2 (default: both)
+  views?: Array<'2d' | '3d'>;
+  // Format specific settings, e.g. { exportSettingName } for IFC
+  advanced?: Record<string, any>;
+}
+
+export interface TranslateOptions {
+  // Default: SVF2 with 2D and 3D views
+  formats?: TranslationOutputFormat[];
+  // Main file of a zipped source (sets compressedUrn)
+  rootFilename?: string;
+  // Translate again even when derivatives already exist
+  force?: boolean;
+}
+
+export interface TranslationJob {
+  urn: string;
+  // "success" when the job was accepted, "created" when it was already done
+  result: string;
+  acceptedJobs?: {
+    output: any;
+  };
+}
+
+export type ManifestStatus = 'pending' | 'inprogress' | 'success' | 'failed' | 'timeout';
+
+export interface ManifestMessage {
+  type: 'info' | 'warning' | 'error';
+  code: string;
+  message?: string | string[];
+}
+
+export interface ManifestNode {
+  guid: string;
+  // geometry, view, resource, folder...
+  type: string;
+  // 2d, 3d, graphics, thumbnail, Autodesk.CloudPlatform.PropertyDatabase...
+  role?: string;
+  name?: string;
+  mime?: string;
+  // Derivative URN of a downloadable resource
+  urn?: string;
+  status?: ManifestStatus;
+  progress?: string;
+  children?: ManifestNode[];
+}
+
+export interface ManifestDerivative {
+  name?: string;
+  outputType: string;
+  status: ManifestStatus;
+  // e.g. "45% complete" or "complete"
+  progress?: string;
+  hasThumbnail?: string;
+  messages?: ManifestMessage[];
+  children?: ManifestNode[];
+}
+
+export interface DerivativeManifest {
+  type: 'manifest';
+  urn: string;
+  region?: string;
+  status: ManifestStatus;
+  progress: string;
+  hasThumbnail: string;
+  derivatives: ManifestDerivative[];
+}
+
+export interface TranslationProgress {
+  urn: string;
+  status: ManifestStatus;
+  // 0-100
+  percent: number;
+  derivatives: Array<{
+    outputType: string;
+    status: ManifestStatus;
+    percent: number;
+  }>;
+  // Warnings and errors of every derivative
+  messages: ManifestMessage[];
+}
+
+export interface WaitForTranslationOptions {
+  // Milliseconds between manifest checks (default: 5000)
+  interval?: number;
+  // Give up after this many milliseconds (default: 30 minutes)
+  timeout?: number;
+  onProgress?: (progress: TranslationProgress) => void;
+}
+
+export interface AutodeskViewable {
+  guid: string;
+  name?: string;
+  role: '2d' | '3d';
+  outputType: string;
+}
+
+export interface AutodeskDerivativeFile {
+  urn: string;
+  name?: string;
+  role?: string;
+  mime?: string;
+  outputType: string;
+}
+
+export interface DerivativeDownloadResult {
+  stream: Readable;
+  size?: number;
+  contentType?: string;
+}
+
+export interface UploadAndTranslateOptions extends UploadFileOptions {
+  translate?: TranslateOptions;
+  // Wait for the translation to finish before returning (default: false)
+  wait?: boolean | WaitForTranslationOptions;
+}
+
+export interface UploadAndTranslateResult {
+  item: AutodeskItem;
+  version: AutodeskVersion;
+  urn: string;
+  job: TranslationJob;
+  // Set when waiting for the translation
+  manifest?: DerivativeManifest;
+}
+
+export interface AutodeskModelView {
+  guid: string;
+  name: string;
+  role: '2d' | '3d';
+  isMasterView?: boolean;
+}
+
+export interface ModelObjectNode {
+  objectid: number;
+  name: string;
+  objects?: ModelObjectNode[];
+}
+
+export interface ModelObjectProperties {
+  objectid: number;
+  name: string;
+  externalId?: string;
+  // Property values by group, e.g. { Constraints: { Level: 'Level 1' } }
+  properties: Record<string, any>;
+}
+
+export interface ModelObjectTreeOptions {
+  // Ask for the tree even above the 20 MB limit (default: only after a 413)
+  forceGet?: boolean;
+  // Give up waiting for the metadata to be extracted after this many milliseconds
+  timeout?: number;
+}
+
+export interface ModelPropertiesOptions {
+  // Give up waiting for the properties to be extracted after this many milliseconds
+  timeout?: number;
+  // Objects per page, 1 to 1000 (default: 1000)
+  pageSize?: number;
+  // Only these objects
+  objectIds?: number[];
+  // Only these fields, e.g. ['objectid', 'name', 'properties.Constraints.Level']
+  fields?: string[];
+}
+
+export interface ModelPropertyTableOptions extends ModelPropertiesOptions {
+  // View to read (default: the master 3D view, else the first 3D view)
+  viewGuid?: string;
+  // Keep only rows of these categories, e.g. ['Walls', 'Revit Doors']
+  categories?: string[];
+}
+
+export interface ModelPropertyRow {
+  dbId: number;
+  externalId?: string;
+  name: string;
+  category?: string;
+  // Flattened as "Group/Property", e.g. "Constraints/Level"
+  properties: Record<string, string | number | boolean | null>;
+}
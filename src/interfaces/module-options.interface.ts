@@ -1,14 +1,67 @@
 import { ModuleMetadata, Type } from '@nestjs/common';
+import { AutodeskTokenStore } from './auth.interface';
+import { AutodeskSafetyOptions } from './safety.interface';
+import { AutodeskWebhooksOptions } from './webhook.interface';
 
 export interface AutodeskAccModuleOptions {
   clientId: string;
-  clientSecret: string;
+  // Omit for public clients that authenticate with PKCE only
+  clientSecret?: string;
   callbackUrl?: string;
   scopes?: string[];
   isGlobal?: boolean;
+  // Root of all Autodesk APIs (default: https://developer.api.autodesk.com)
   baseUrl?: string;
+  // Root of the authentication API (default: {baseUrl}/authentication/v2)
+  authUrl?: string;
+  // OpenID Connect userinfo endpoint (default: https://api.userprofile.autodesk.com/userinfo)
+  userInfoUrl?: string;
+  // Data center of the projects, buckets and derivatives, sent as a region header
+  region?: AutodeskRegion;
+  // Where per-user 3-legged tokens are kept (default: in memory)
+  tokenStore?: AutodeskTokenStore;
+  // How AutodeskUserInterceptor reads the user id from a request (default: request.user.id)
+  userIdResolver?: AutodeskUserIdResolver;
+  // Registers AutodeskAuthController (/autodesk/login, /autodesk/callback, /autodesk/logout)
+  authRoutes?: AutodeskAuthRoutesOptions;
+  http?: AutodeskHttpOptions;
+  // How long project-to-hub mappings are cached, in milliseconds (default: 1 hour)
+  hubCacheTtl?: number;
+  // How long folder listings used for path lookups are cached, in milliseconds (default: 60s)
+  pathCacheTtl?: number;
+  // Dry-run mode and protected folders for data management changes
+  safety?: AutodeskSafetyOptions;
+  // Registers AutodeskWebhooksController (POST /autodesk/webhooks)
+  webhooks?: AutodeskWebhooksOptions;
 }
 
+export interface AutodeskHttpOptions {
+  // Request timeout in milliseconds (default: 30000); override per request with `timeout`
+  timeout?: number;
+  // Retries for 429s and transient failures (default: 3)
+  retries?: number;
+  // First backoff delay in milliseconds, doubled on every retry (default: 500)
+  retryBaseDelay?: number;
+  // Upper bound for a single backoff or Retry-After wait (default: 30000)
+  retryMaxDelay?: number;
+}
+
+export interface AutodeskAuthRoutesOptions {
+  // Secret used to seal the OAuth state parameter
+  stateSecret: string;
+  // Send a PKCE code challenge (default: true when there is no clientSecret)
+  pkce?: boolean;
+  // How long a login attempt stays valid, in seconds (default: 600)
+  stateTtl?: number;
+  successRedirect?: string;
+  failureRedirect?: string;
+  logoutRedirect?: string;
+}
+
+export type AutodeskRegion = 'US' | 'EMEA' | 'AUS';
+
+export type AutodeskUserIdResolver = (request: any) => string | undefined;
+
 export interface AutodeskAccOptionsFactory {
   createAutodeskAccOptions(): Promise<AutodeskAccModuleOptions> | AutodeskAccModuleOptions;
 }
@@ -19,4 +72,8 @@ export interface AutodeskAccModuleAsyncOptions extends Pick<ModuleMetadata, 'imp
   useFactory?: (...args: any[]) => Promise<AutodeskAccModuleOptions> | AutodeskAccModuleOptions;
   inject?: any[];
   isGlobal?: boolean;
+  // Register AutodeskAuthController; configure it through authRoutes in the resolved options
+  authRoutes?: boolean;
+  // Register AutodeskWebhooksController; configure it through webhooks in the resolved options
+  webhooks?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { Readable } from 'stream';
+import { UploadFileOptions } from './file.interface';
+
+// transient: objects are kept 24 hours, temporary: 30 days, persistent: until deleted
+export type OssRetentionPolicy = 'transient' | 'temporary' | 'persistent';
+
+export interface CreateBucketOptions {
+  // Default: transient
+  policyKey?: OssRetentionPolicy;
+  // Data center of the bucket, e.g. "US" or "EMEA" (default: the module's region)
+  region?: string;
+}
+
+export interface OssBucket {
+  bucketKey: string;
+  bucketOwner?: string;
+  createdDate: number;
+  policyKey: OssRetentionPolicy;
+  permissions?: Array<{
+    authId: string;
+    access: string;
+  }>;
+}
+
+export interface OssListOptions {
+  // Results per page (default: 10, max: 100)
+  limit?: number;
+  // Key to start listing at
+  startAt?: string;
+}
+
+export interface OssBucketListOptions extends OssListOptions {
+  region?: string;
+}
+
+export interface OssObjectListOptions extends OssListOptions {
+  // Only objects whose key starts with this prefix
+  beginsWith?: string;
+}
+
+export interface OssObject {
+  bucketKey: string;
+  objectKey: string;
+  // URN of the object, "urn:adsk.objects:os.object:{bucketKey}/{objectKey}"
+  objectId: string;
+  sha1?: string;
+  size: number;
+  contentType?: string;
+  location?: string;
+}
+
+// Single-part when the source fits in one partSize, multipart otherwise
+export type OssUploadOptions = Pick<
+  UploadFileOptions,
+  | 'fileBuffer'
+  | 'fileStream'
+  | 'filePath'
+  | 'fileSize'
+  | 'contentType'
+  | 'partSize'
+  | 'concurrency'
+  | 'onProgress'
+>;
+
+export interface OssDownloadUrl {
+  url: string;
+  expiresAt: number;
+  size?: number;
+  sha1?: string;
+  contentType?: string;
+}
+
+export interface OssDownloadResult {
+  stream: Readable;
+  size?: number;
+  contentType?: string;
+}
+
+export type OssSignedUrlAccess = 'read' | 'write' | 'readwrite';
+
+export interface CreateSignedUrlOptions {
+  // Default: read
+  access?: OssSignedUrlAccess;
+  // Default: 60
+  minutesExpiration?: number;
+  // The URL stops working after its first use (default: false)
+  singleUse?: boolean;
+}
+
+export interface OssSignedUrl {
+  signedUrl: string;
+  // Milliseconds since the epoch
+  expiration: number;
+  singleUse?: boolean;
+}
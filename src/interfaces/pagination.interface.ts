@@ -0,0 +1,8 @@
+export interface PaginationOptions {
+  // Sent as page[limit]
+  pageLimit?: number;
+  // Sent as page[number]
+  pageNumber?: number;
+  // Follow links.next to the last page (default: true unless pageNumber is set)
+  followNext?: boolean;
+}
@@ -0,0 +1,49 @@
+export interface AutodeskSafetyOptions {
+  // Refuse every data management change that is not made with dryRun: true, including
+  // uploadMany and folder sync runs; plain calls have no planned change to return
+  dryRun?: boolean;
+  // Folder IDs, or paths such as "/Project Files/Contracts", that can never be
+  // deleted, hidden, renamed or moved (nor any folder above them)
+  protectedFolders?: string[];
+}
+
+/**
+ * A mutating request that was not sent because of dry-run mode
+ */
+export interface AutodeskPlannedChange {
+  dryRun: true;
+  // Name of the method that planned the change, e.g. "deleteItem"
+  operation: string;
+  description: string;
+  method: 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  url: string;
+  params?: Record<string, any>;
+  body?: any;
+  // Changes the operation would make first, e.g. a recursive folder deletion
+  steps?: AutodeskPlannedChange[];
+}
+
+/**
+ * Last argument of every mutating data management method
+ */
+export interface DryRunOptions {
+  // Log and return the planned change instead of sending the request
+  dryRun?: boolean;
+}
+
+/**
+ * Options of a mutating call made without dryRun, the default of the dry-run overloads
+ */
+export interface NoDryRun {
+  dryRun?: false;
+}
+
+/**
+ * What a mutating method resolves to: the planned change with { dryRun: true }, its usual
+ * result without dryRun, and either when dryRun is only known at runtime
+ */
+export type DryRunResult<T, O> = O extends { dryRun: true }
+  ? AutodeskPlannedChange
+  : O extends { dryRun?: false }
+    ? T
+    : T | AutodeskPlannedChange;
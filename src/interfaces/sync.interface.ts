@@ -0,0 +1,109 @@
+import { AutodeskPlannedChange } from './safety.interface';
+
+// push: make the ACC folder match the local directory
+// pull: make the local directory match the ACC folder
+// bidirectional: copy changes both ways, resolving conflicts by policy
+export type FolderSyncMode = 'push' | 'pull' | 'bidirectional';
+
+// What to do with a file changed on both sides since the last sync
+// local/remote: that side wins; newest: the later modification wins; skip: leave both
+export type FolderSyncConflictPolicy = 'local' | 'remote' | 'newest' | 'skip';
+
+export type FolderSyncAction =
+  | 'upload'
+  | 'uploadVersion'
+  | 'download'
+  | 'deleteLocal'
+  | 'deleteRemote'
+  | 'conflict';
+
+export interface FolderSyncOptions {
+  projectId: string;
+  folderId: string;
+  localPath: string;
+  // Default: bidirectional
+  mode?: FolderSyncMode;
+  // Default: skip
+  conflictPolicy?: FolderSyncConflictPolicy;
+  // Where the sync state is kept (default: {localPath}/.autodesk-sync.json)
+  manifestPath?: string;
+  // Delete files on one side when they were deleted on the other since the
+  // last sync (default: false, the file is copied back instead)
+  propagateDeletes?: boolean;
+  // Return false to leave a file out of the sync; paths are relative, with "/"
+  filter?: (relativePath: string) => boolean;
+  // Files transferred in parallel (default: 4)
+  concurrency?: number;
+  // Change nothing locally and only plan the remote changes
+  dryRun?: boolean;
+}
+
+export interface LocalFileState {
+  size: number;
+  mtimeMs: number;
+  // SHA-256, only computed when the mtime changed but the size did not
+  hash?: string;
+}
+
+export interface RemoteFileState {
+  itemId: string;
+  versionId: string;
+  lastModifiedTime: string;
+  // Storage size and SHA-1 of the tip version, only fetched to compare files never synced
+  size?: number;
+  sha1?: string;
+}
+
+export interface FolderSyncFileState {
+  // Relative to the synced folder, with "/" separators
+  path: string;
+  local?: LocalFileState;
+  remote?: RemoteFileState;
+}
+
+export interface FolderSyncPlanEntry extends FolderSyncFileState {
+  action: FolderSyncAction;
+  reason: string;
+}
+
+export interface FolderSyncPlan {
+  projectId: string;
+  folderId: string;
+  localPath: string;
+  mode: FolderSyncMode;
+  entries: FolderSyncPlanEntry[];
+  // Files that need no transfer
+  unchanged: FolderSyncFileState[];
+  // Remote folder IDs by relative path ("" is the synced folder)
+  remoteFolders: Record<string, string>;
+}
+
+export interface FolderSyncManifestEntry {
+  size: number;
+  mtimeMs: number;
+  // SHA-256 of the local file, hex
+  hash: string;
+  itemId: string;
+  versionId: string;
+  lastModifiedTime: string;
+}
+
+export interface FolderSyncManifest {
+  version: 1;
+  projectId: string;
+  folderId: string;
+  syncedAt: string;
+  // Keyed by relative path
+  files: Record<string, FolderSyncManifestEntry>;
+}
+
+export interface FolderSyncResult {
+  plan: FolderSyncPlan;
+  applied: FolderSyncPlanEntry[];
+  // Conflicts left alone by the "skip" policy, and local changes in dry-run mode
+  skipped: FolderSyncPlanEntry[];
+  failed: Array<{ entry: FolderSyncPlanEntry; error: string }>;
+  // Changes dry-run mode kept from being sent
+  planned: AutodeskPlannedChange[];
+  manifestPath: string;
+}
@@ -0,0 +1,74 @@
+import { AutodeskDmEventPayload, AutodeskEvent } from './webhook.interface';
+
+export type FolderWatchChange = 'added' | 'modified' | 'deleted' | 'renamed' | 'moved';
+
+export interface FolderWatchBackoffOptions {
+  // Interval multiplier after each failed poll in a row (default: 2)
+  multiplier?: number;
+  // Longest wait between failed polls, in milliseconds (default: 15 minutes)
+  maxInterval?: number;
+  // Stop the stream with the error after this many failed polls in a row (default: never)
+  maxFailures?: number;
+}
+
+export interface FolderWatchOptions {
+  projectId: string;
+  // Folders to watch, each with its subfolders down to depth
+  folderIds: string[];
+  // Milliseconds between polls (default: 60000)
+  interval?: number;
+  // Levels of subfolders to scan (default: unlimited, 0 = only the folders themselves)
+  depth?: number;
+  backoff?: FolderWatchBackoffOptions;
+  // Where the last snapshot is kept between polls and restarts (default: memory only)
+  snapshotPath?: string;
+  // Report everything as added when there is no snapshot yet (default: false)
+  emitInitial?: boolean;
+  // Also deliver events to AutodeskEventBus and @OnAutodeskEvent handlers (default: true)
+  publish?: boolean;
+  // Folder listings fetched in parallel (default: 5)
+  concurrency?: number;
+}
+
+export interface FolderWatchEntry {
+  id: string;
+  kind: 'folder' | 'item';
+  name: string;
+  // Full path below the watched folder, e.g. "Structural/model.rvt"
+  path: string;
+  parentId: string;
+  // Watched folder the entry was found under
+  rootId: string;
+  lastModifiedTime: string;
+  lastModifiedUserId?: string;
+  // Tip version of an item
+  versionId?: string;
+}
+
+export interface FolderWatchSnapshot {
+  version: 1;
+  projectId: string;
+  folderIds: string[];
+  takenAt: string;
+  // Keyed by folder or item ID
+  entries: Record<string, FolderWatchEntry>;
+}
+
+/**
+ * Payload of a watcher event, a Data Management event payload plus what changed
+ */
+export interface FolderWatchEventPayload extends AutodeskDmEventPayload {
+  change: FolderWatchChange;
+  kind: 'folder' | 'item';
+  path: string;
+  // For renamed entries
+  previousName?: string;
+  previousPath?: string;
+}
+
+export type FolderWatchEvent = AutodeskEvent<FolderWatchEventPayload>;
+
+export interface FolderWatchPollResult {
+  snapshot: FolderWatchSnapshot;
+  events: FolderWatchEvent[];
+}
@@ -0,0 +1,111 @@
+export type AutodeskDmEventType =
+  | 'dm.version.added'
+  | 'dm.version.modified'
+  | 'dm.version.deleted'
+  | 'dm.version.moved'
+  | 'dm.version.moved.out'
+  | 'dm.version.copied'
+  | 'dm.version.copied.out'
+  | 'dm.folder.added'
+  | 'dm.folder.modified'
+  | 'dm.folder.deleted'
+  | 'dm.folder.purged'
+  | 'dm.folder.moved'
+  | 'dm.folder.moved.out'
+  | 'dm.folder.copied'
+  | 'dm.folder.copied.out'
+  | 'dm.lineage.reserved'
+  | 'dm.lineage.unreserved'
+  | 'dm.lineage.updated'
+  | 'dm.operation.started'
+  | 'dm.operation.completed';
+
+export type AutodeskWebhookStatus = 'active' | 'inactive';
+
+export interface AutodeskWebhook {
+  hookId: string;
+  event: string;
+  system: string;
+  callbackUrl: string;
+  status: AutodeskWebhookStatus;
+  scope: {
+    folder?: string;
+    [key: string]: string | undefined;
+  };
+  tenant?: string;
+  createdBy?: string;
+  createdDate?: string;
+  lastUpdatedDate?: string;
+  hookAttribute?: Record<string, any>;
+  filter?: string;
+  autoReactivateHook?: boolean;
+  hookExpiry?: string;
+  urn?: string;
+  __self__?: string;
+}
+
+export interface CreateWebhookOptions {
+  event: AutodeskDmEventType;
+  // Folder URN the hook watches, including its subfolders
+  folderId: string;
+  // Default: webhooks.callbackUrl of the module options
+  callbackUrl?: string;
+  // Echoed back in every callback of the hook
+  hookAttribute?: Record<string, any>;
+  // JsonPath filter on the payload, e.g. "$[?(@.ext=='rvt')]"
+  filter?: string;
+  autoReactivateHook?: boolean;
+  // ISO 8601 date after which the hook is removed
+  hookExpiry?: string;
+  hubId?: string;
+  projectId?: string;
+}
+
+export type UpdateWebhookOptions = Partial<
+  Pick<AutodeskWebhook, 'status' | 'filter' | 'hookAttribute' | 'autoReactivateHook' | 'hookExpiry'>
+>;
+
+/**
+ * Data of a Data Management event; the fields depend on the event type
+ */
+export interface AutodeskDmEventPayload {
+  name?: string;
+  ext?: string;
+  // URN of the version or folder the event is about
+  source?: string;
+  lineageUrn?: string;
+  parentFolderUrn?: string;
+  // For moved and copied events
+  sourceFolderUrn?: string;
+  targetFolderUrn?: string;
+  project?: string;
+  tenant?: string;
+  creator?: string;
+  modifiedBy?: string;
+  createdTime?: string;
+  modifiedTime?: string;
+  sizeInBytes?: number;
+  [key: string]: any;
+}
+
+/**
+ * An Autodesk event, received through a webhook or found by a folder watcher
+ */
+export interface AutodeskEvent<T = AutodeskDmEventPayload> {
+  event: AutodeskDmEventType | string;
+  // URN of the resource the event is about
+  resourceUrn: string;
+  // Folder URN the hook (or watcher) was registered on
+  scope?: string;
+  hookId?: string;
+  hookAttribute?: Record<string, any>;
+  payload: T;
+  receivedAt: Date;
+}
+
+export interface AutodeskWebhooksOptions {
+  // Secret token registered with Autodesk, used to verify x-adsk-signature
+  secret: string;
+  // Public URL of AutodeskWebhooksController (POST /autodesk/webhooks)
+  callbackUrl?: string;
+}
@@ -3,6 +3,13 @@ import { Injectable } from '@nestjs/common';
 import { AutodeskAuthService } from './autodesk-auth.service';
 import { AutodeskProjectService } from './autodesk-project.service';
 import { AutodeskDataManagementService } from './autodesk-data-management.service';
+import { AutodeskOssService } from './autodesk-oss.service';
+import { AutodeskPathService } from './autodesk-path.service';
+import { FolderSyncService } from './folder-sync.service';
+import { FolderWatcherService } from './folder-watcher.service';
+import { AutodeskModelDerivativeService } from './autodesk-model-derivative.service';
+import { AutodeskWebhooksService } from './autodesk-webhooks.service';
+import { BulkUploadFile, BulkUploadOptions } from '../interfaces';
 
 /**
  * Main service that provides access to all Autodesk ACC functionality
@@ -13,8 +20,21 @@ export class AutodeskAccService {
     public readonly auth: AutodeskAuthService,
     public readonly projects: AutodeskProjectService,
     public readonly dataManagement: AutodeskDataManagementService,
+    public readonly paths: AutodeskPathService,
+    public readonly folderSync: FolderSyncService,
+    public readonly folderWatcher: FolderWatcherService,
+    public readonly modelDerivative: AutodeskModelDerivativeService,
+    public readonly oss: AutodeskOssService,
+    public readonly webhooks: AutodeskWebhooksService,
   ) {}
 
+  /**
+   * Run a function with every Autodesk request inside it made as the given user
+   */
+  withUser<T>(userId: string, fn: () => T): T {
+    return this.auth.runAsUser(userId, fn);
+  }
+
   /**
    * Quick access methods for common operations
    */
@@ -38,6 +58,42 @@ export class AutodeskAccService {
     });
   }
 
+  /**
+   * Upload many files to a folder, resumable through a checkpoint file
+   */
+  async uploadMany(
+    projectId: string,
+    folderId: string,
+    files: BulkUploadFile[],
+    options?: BulkUploadOptions,
+  ) {
+    return this.dataManagement.uploadMany(projectId, folderId, files, options);
+  }
+
+  /**
+   * Upload a file as a new version of an existing item
+   */
+  async uploadNewVersion(
+    projectId: string,
+    itemId: string,
+    fileName: string,
+    fileBuffer: Buffer,
+    contentType?: string,
+  ) {
+    return this.dataManagement.uploadNewVersion(projectId, itemId, {
+      fileName,
+      fileBuffer,
+      contentType,
+    });
+  }
+
+  /**
+   * Download an item (tip version unless a version ID is given)
+   */
+  async downloadItem(projectId: string, itemId: string, versionId?: string) {
+    return this.dataManagement.downloadItem(projectId, itemId, { versionId });
+  }
+
   /**
    * Get all projects for a hub
    */
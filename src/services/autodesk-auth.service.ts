@@ -1,22 +1,41 @@
 // src/services/autodesk-auth.service.ts
 import { Injectable, Inject, Logger, UnauthorizedException } from '@nestjs/common';
 import axios, { AxiosInstance } from 'axios';
-import { AUTODESK_ACC_OPTIONS, AUTODESK_AUTH_URL } from '../constants';
+import {
+  AUTODESK_ACC_OPTIONS,
+  AUTODESK_AUTH_PATH,
+  AUTODESK_BASE_URL,
+  AUTODESK_USERINFO_URL,
+  AUTODESK_TOKEN_EXPIRY_BUFFER,
+  AUTODESK_TOKEN_REFRESH_BUFFER,
+} from '../constants';
 import { AutodeskAccModuleOptions } from '../interfaces/module-options.interface';
-import { AutodeskTokenResponse, AutodeskAuthContext } from '../interfaces/auth.interface';
+import {
+  AutodeskTokenResponse,
+  AutodeskAuthContext,
+  AutodeskTokenStore,
+  AutodeskUserProfile,
+} from '../interfaces/auth.interface';
+import { InMemoryTokenStore } from '../stores/in-memory-token.store';
+import { AutodeskUserContext } from '../context/autodesk-user.context';
 
 @Injectable()
 export class AutodeskAuthService {
   private readonly logger = new Logger(AutodeskAuthService.name);
   private readonly httpClient: AxiosInstance;
-  private authContext: AutodeskAuthContext | null = null;
+  private readonly appTokens = new Map<string, AutodeskAuthContext>();
+  private readonly pendingAppTokens = new Map<string, Promise<AutodeskAuthContext>>();
+  private readonly tokenStore: AutodeskTokenStore;
+  private readonly userRefreshes = new Map<string, Promise<AutodeskAuthContext>>();
 
   constructor(
     @Inject(AUTODESK_ACC_OPTIONS)
     private readonly options: AutodeskAccModuleOptions,
+    private readonly userContext: AutodeskUserContext,
   ) {
+    this.tokenStore = options.tokenStore || new InMemoryTokenStore();
     this.httpClient = axios.create({
-      baseURL: AUTODESK_AUTH_URL,
+      baseURL: this.getAuthUrl(),
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
       },
@@ -25,52 +44,80 @@ export class AutodeskAuthService {
 
   /**
    * Authenticate using client credentials (2-legged OAuth)
+   * Tokens are cached per scope set and shared by concurrent callers
    */
-  async authenticate(): Promise<string> {
-    try {
-      // Check if we have a valid token
-      if (this.authContext && this.isTokenValid()) {
-        return this.authContext.accessToken;
+  async authenticate(scopes?: string[]): Promise<string> {
+    const scopeList = scopes?.length ? scopes : this.getDefaultScopes();
+    const scopeKey = [...new Set(scopeList)].sort().join(' ');
+    const cached = this.appTokens.get(scopeKey);
+
+    if (cached && this.isTokenValid(cached)) {
+      // Refresh ahead of expiry without making the caller wait
+      if (Date.now() >= cached.expiresAt - AUTODESK_TOKEN_REFRESH_BUFFER) {
+        this.requestAppToken(scopeKey).catch(() => undefined);
       }
+      return cached.accessToken;
+    }
 
-      // Get new token
-      const scopes = this.options.scopes || [
-        'data:read',
-        'data:write',
-        'data:create',
-        'bucket:read',
-        'bucket:create',
-      ];
+    const authContext = await this.requestAppToken(scopeKey);
+    return authContext.accessToken;
+  }
+
+  /**
+   * Request a client credentials token, with at most one request in flight per scope set
+   */
+  private requestAppToken(scopeKey: string): Promise<AutodeskAuthContext> {
+    let pending = this.pendingAppTokens.get(scopeKey);
 
+    if (!pending) {
+      pending = this.fetchAppToken(scopeKey).finally(() =>
+        this.pendingAppTokens.delete(scopeKey),
+      );
+      this.pendingAppTokens.set(scopeKey, pending);
+    }
+
+    return pending;
+  }
+
+  private async fetchAppToken(scope: string): Promise<AutodeskAuthContext> {
+    try {
       const params = new URLSearchParams({
-        client_id: this.options.clientId,
-        client_secret: this.options.clientSecret,
+        ...this.getClientParams(),
         grant_type: 'client_credentials',
-        scope: scopes.join(' '),
+        scope,
       });
 
-      const response = await this.httpClient.post<AutodeskTokenResponse>('', params.toString());
+      const response = await this.httpClient.post<AutodeskTokenResponse>('/token', params.toString());
 
-      this.authContext = {
+      const authContext: AutodeskAuthContext = {
         accessToken: response.data.access_token,
         expiresAt: Date.now() + response.data.expires_in * 1000,
         refreshToken: response.data.refresh_token,
       };
+      this.appTokens.set(scope, authContext);
 
-      this.logger.log('Successfully authenticated with Autodesk');
-      return this.authContext.accessToken;
+      this.logger.log(`Successfully authenticated with Autodesk (${scope})`);
+      return authContext;
     } catch (error) {
       this.logger.error('Authentication failed', error.response?.data || error.message);
       throw new UnauthorizedException('Failed to authenticate with Autodesk ACC');
     }
   }
 
+  private getDefaultScopes(): string[] {
+    return (
+      this.options.scopes || ['data:read', 'data:write', 'data:create', 'bucket:read', 'bucket:create']
+    );
+  }
+
   /**
    * Get 3-legged OAuth authorization URL
+   * extraScopes are requested on top of the configured ones, e.g. user-profile:read
    */
-  getAuthorizationUrl(state?: string): string {
-    const scopes = this.options.scopes || ['data:read', 'data:write', 'data:create'];
-    
+  getAuthorizationUrl(state?: string, codeChallenge?: string, extraScopes: string[] = []): string {
+    const configured = this.options.scopes || ['data:read', 'data:write', 'data:create'];
+    const scopes = [...new Set([...configured, ...extraScopes])];
+
     const params = new URLSearchParams({
       response_type: 'code',
       client_id: this.options.clientId,
@@ -82,23 +129,31 @@ export class AutodeskAuthService {
       params.append('state', state);
     }
 
-    return `https://developer.api.autodesk.com/authentication/v2/authorize?${params.toString()}`;
+    if (codeChallenge) {
+      params.append('code_challenge', codeChallenge);
+      params.append('code_challenge_method', 'S256');
+    }
+
+    return `${this.getAuthUrl()}/authorize?${params.toString()}`;
   }
 
   /**
    * Exchange authorization code for access token (3-legged OAuth)
    */
-  async getAccessTokenFromCode(code: string): Promise<AutodeskAuthContext> {
+  async getAccessTokenFromCode(code: string, codeVerifier?: string): Promise<AutodeskAuthContext> {
     try {
       const params = new URLSearchParams({
-        client_id: this.options.clientId,
-        client_secret: this.options.clientSecret,
+        ...this.getClientParams(),
         grant_type: 'authorization_code',
         code,
         redirect_uri: this.options.callbackUrl || '',
       });
 
-      const response = await this.httpClient.post<AutodeskTokenResponse>('', params.toString());
+      if (codeVerifier) {
+        params.append('code_verifier', codeVerifier);
+      }
+
+      const response = await this.httpClient.post<AutodeskTokenResponse>('/token', params.toString());
 
       const authContext: AutodeskAuthContext = {
         accessToken: response.data.access_token,
@@ -119,13 +174,12 @@ export class AutodeskAuthService {
   async refreshAccessToken(refreshToken: string): Promise<AutodeskAuthContext> {
     try {
       const params = new URLSearchParams({
-        client_id: this.options.clientId,
-        client_secret: this.options.clientSecret,
+        ...this.getClientParams(),
         grant_type: 'refresh_token',
         refresh_token: refreshToken,
       });
 
-      const response = await this.httpClient.post<AutodeskTokenResponse>('', params.toString());
+      const response = await this.httpClient.post<AutodeskTokenResponse>('/token', params.toString());
 
       const authContext: AutodeskAuthContext = {
         accessToken: response.data.access_token,
@@ -141,25 +195,209 @@ export class AutodeskAuthService {
   }
 
   /**
-   * Check if current token is still valid
+   * Exchange an authorization code and store the resulting token for a user
+   */
+  async authenticateUser(
+    userId: string,
+    code: string,
+    codeVerifier?: string,
+  ): Promise<AutodeskAuthContext> {
+    const authContext = await this.getAccessTokenFromCode(code, codeVerifier);
+    await this.tokenStore.set(userId, authContext);
+    this.logger.log(`Stored Autodesk token for user ${userId}`);
+    return authContext;
+  }
+
+  /**
+   * Store an existing 3-legged token for a user
+   */
+  async setUserToken(userId: string, authContext: AutodeskAuthContext): Promise<void> {
+    await this.tokenStore.set(userId, authContext);
+  }
+
+  /**
+   * Get a user's 3-legged access token, refreshing it before it expires
+   */
+  async getUserAccessToken(userId: string): Promise<string> {
+    const authContext = await this.tokenStore.get(userId);
+    if (!authContext) {
+      throw new UnauthorizedException(`No Autodesk token stored for user ${userId}`);
+    }
+
+    if (this.isTokenValid(authContext)) {
+      return authContext.accessToken;
+    }
+
+    if (!authContext.refreshToken) {
+      throw new UnauthorizedException(`Autodesk token for user ${userId} has expired`);
+    }
+
+    const refreshed = await this.refreshUserToken(userId, authContext.refreshToken);
+    return refreshed.accessToken;
+  }
+
+  /**
+   * Drop a token the API rejected so the next request gets a new one
+   */
+  async invalidateAccessToken(accessToken: string): Promise<void> {
+    for (const [scopeKey, authContext] of this.appTokens) {
+      if (authContext.accessToken === accessToken) {
+        this.appTokens.delete(scopeKey);
+      }
+    }
+
+    // Mark the current user's token as expired so it is refreshed
+    const userId = this.getCurrentUserId();
+    if (userId) {
+      const authContext = await this.tokenStore.get(userId);
+      if (authContext?.accessToken === accessToken) {
+        await this.tokenStore.set(userId, { ...authContext, expiresAt: 0 });
+      }
+    }
+  }
+
+  /**
+   * Remove a user's stored token
+   */
+  async removeUserToken(userId: string): Promise<void> {
+    await this.tokenStore.delete(userId);
+  }
+
+  /**
+   * Revoke a user's tokens with Autodesk and remove them from the store
+   */
+  async logoutUser(userId: string): Promise<void> {
+    try {
+      const authContext = await this.tokenStore.get(userId);
+      if (authContext) {
+        // Try both revocations; a failed one must not keep the user logged in locally
+        const results = await Promise.allSettled([
+          authContext.refreshToken
+            ? this.revokeToken(authContext.refreshToken, 'refresh_token')
+            : Promise.resolve(),
+          this.revokeToken(authContext.accessToken, 'access_token'),
+        ]);
+        if (results.some((result) => result.status === 'rejected')) {
+          this.logger.warn(`Could not revoke every Autodesk token of user ${userId}`);
+        }
+      }
+    } finally {
+      await this.tokenStore.delete(userId);
+    }
+    this.logger.log(`Logged out Autodesk user ${userId}`);
+  }
+
+  /**
+   * Revoke an access or refresh token
+   */
+  async revokeToken(
+    token: string,
+    tokenTypeHint: 'access_token' | 'refresh_token' = 'access_token',
+  ): Promise<void> {
+    try {
+      const params = new URLSearchParams({
+        ...this.getClientParams(),
+        token,
+        token_type_hint: tokenTypeHint,
+      });
+
+      await this.httpClient.post('/revoke', params.toString());
+    } catch (error) {
+      this.logger.error('Failed to revoke token', error.response?.data || error.message);
+      throw new UnauthorizedException('Failed to revoke Autodesk token');
+    }
+  }
+
+  /**
+   * Get the Autodesk profile of the user a 3-legged token belongs to
+   */
+  async getUserProfile(accessToken: string): Promise<AutodeskUserProfile> {
+    try {
+      const userInfoUrl = this.options.userInfoUrl || AUTODESK_USERINFO_URL;
+      const response = await axios.get<AutodeskUserProfile>(userInfoUrl, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      return response.data;
+    } catch (error) {
+      this.logger.error('Failed to fetch user profile', error.response?.data || error.message);
+      throw new UnauthorizedException('Failed to fetch Autodesk user profile');
+    }
+  }
+
+  /**
+   * Run a function with every Autodesk request inside it made as the given user
+   */
+  runAsUser<T>(userId: string, fn: () => T): T {
+    return this.userContext.run(userId, fn);
+  }
+
+  /**
+   * Get the user the current call runs as, if any
+   */
+  getCurrentUserId(): string | undefined {
+    return this.userContext.getUserId();
+  }
+
+  /**
+   * Refresh a user's token once, even when many requests need it at the same time
+   * Autodesk refresh tokens are single-use, so parallel refreshes would fail
+   */
+  private refreshUserToken(userId: string, refreshToken: string): Promise<AutodeskAuthContext> {
+    let refresh = this.userRefreshes.get(userId);
+
+    if (!refresh) {
+      refresh = this.refreshAccessToken(refreshToken)
+        .then(async (authContext) => {
+          await this.tokenStore.set(userId, authContext);
+          this.logger.log(`Refreshed Autodesk token for user ${userId}`);
+          return authContext;
+        })
+        .finally(() => this.userRefreshes.delete(userId));
+      this.userRefreshes.set(userId, refresh);
+    }
+
+    return refresh;
+  }
+
+  /**
+   * Root of the authentication API, honoring the authUrl and baseUrl options
+   */
+  private getAuthUrl(): string {
+    const baseUrl = this.options.baseUrl || AUTODESK_BASE_URL;
+    return (this.options.authUrl || `${baseUrl}${AUTODESK_AUTH_PATH}`).replace(/\/$/, '');
+  }
+
+  /**
+   * Client credentials for token requests; public (PKCE) clients have no secret
+   */
+  private getClientParams(): Record<string, string> {
+    return this.options.clientSecret
+      ? { client_id: this.options.clientId, client_secret: this.options.clientSecret }
+      : { client_id: this.options.clientId };
+  }
+
+  /**
+   * Check if a token is still valid
    */
-  private isTokenValid(): boolean {
-    if (!this.authContext) return false;
+  private isTokenValid(authContext: AutodeskAuthContext): boolean {
     // Add 5-minute buffer before expiration
-    return Date.now() < this.authContext.expiresAt - 300000;
+    return Date.now() < authContext.expiresAt - AUTODESK_TOKEN_EXPIRY_BUFFER;
   }
 
   /**
    * Get current access token (with auto-refresh)
+   * Uses the current user's 3-legged token inside runAsUser, the 2-legged token otherwise
+   * Scopes only apply to 2-legged tokens; a user's token carries the scopes they granted
    */
-  async getAccessToken(): Promise<string> {
-    return this.authenticate();
+  async getAccessToken(scopes?: string[]): Promise<string> {
+    const userId = this.getCurrentUserId();
+    return userId ? this.getUserAccessToken(userId) : this.authenticate(scopes);
   }
 
   /**
    * Clear authentication context
    */
   clearAuth(): void {
-    this.authContext = null;
+    this.appTokens.clear();
   }
 }
\ No newline at end of file
@@ -1,51 +1,116 @@
 // src/services/autodesk-data-management.service.ts
-import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
-import axios, { AxiosInstance } from 'axios';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import axios from 'axios';
 import FormData from 'form-data';
-import { AutodeskAuthService } from './autodesk-auth.service';
-import { AUTODESK_BASE_URL } from '../constants';
-import { AutodeskFolder, AutodeskItem, UploadFileOptions, AutodeskStorageLocation } from '../interfaces';
+import { createWriteStream } from 'fs';
+import { readFile, rename, writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { AutodeskHttpClient } from './autodesk-http-client.service';
+import { ProjectHubResolver } from './project-hub-resolver.service';
+import { AutodeskOssService } from './autodesk-oss.service';
+import {
+  AUTODESK_ACC_OPTIONS,
+  AUTODESK_BULK_UPLOAD_CONCURRENCY,
+  AUTODESK_TREE_CONCURRENCY,
+} from '../constants';
+import {
+  AutodeskFolder,
+  AutodeskItem,
+  UploadFileOptions,
+  UploadVersionOptions,
+  AutodeskStorageLocation,
+  DownloadItemOptions,
+  AutodeskDownloadResult,
+  AutodeskVersion,
+  AutodeskVersionDownloadInfo,
+  PaginationOptions,
+  FolderTreeOptions,
+  AutodeskFolderTreeNode,
+  DeleteFolderOptions,
+  AutodeskDeletedContents,
+  AutodeskAccModuleOptions,
+  AutodeskPlannedChange,
+  DryRunOptions,
+  DryRunResult,
+  NoDryRun,
+  BulkUploadFile,
+  BulkUploadOptions,
+  BulkUploadReport,
+  BulkUploadFileResult,
+  BulkUploadCheckpoint,
+} from '../interfaces';
+import {
+  AutodeskConflictError,
+  AutodeskForbiddenError,
+  AutodeskNotFoundError,
+  createAutodeskApiError,
+  describeError,
+  rethrowAs,
+} from '../errors/autodesk-api.error';
+import { collect, paginate } from '../utils/pagination.util';
+import { runTaskQueue } from '../utils/concurrency.util';
+import { isPlannedChange, resolveDryRun } from '../utils/safety.util';
+import { getUploadSize } from '../utils/upload-source.util';
 
 @Injectable()
 export class AutodeskDataManagementService {
   private readonly logger = new Logger(AutodeskDataManagementService.name);
-  private readonly httpClient: AxiosInstance;
 
-  constructor(private readonly authService: AutodeskAuthService) {
-    this.httpClient = axios.create({
-      baseURL: AUTODESK_BASE_URL,
-    });
-
-    // Add request interceptor for auth
-    this.httpClient.interceptors.request.use(async (config) => {
-      const token = await this.authService.getAccessToken();
-      config.headers.Authorization = `Bearer ${token}`;
-      return config;
-    });
-  }
+  constructor(
+    private readonly httpClient: AutodeskHttpClient,
+    private readonly hubResolver: ProjectHubResolver,
+    private readonly oss: AutodeskOssService,
+    @Inject(AUTODESK_ACC_OPTIONS)
+    private readonly options: AutodeskAccModuleOptions,
+  ) {}
 
   /**
    * Get folder contents
    */
-  async getFolderContents(projectId: string, folderId: string): Promise<{
+  async getFolderContents(
+    projectId: string,
+    folderId: string,
+    options: PaginationOptions = {},
+  ): Promise<{
     folders: AutodeskFolder[];
     items: AutodeskItem[];
   }> {
+    const contents = await collect(this.iterateFolderContents(projectId, folderId, options));
+
+    const folders = contents.filter((item): item is AutodeskFolder => item.type === 'folders');
+    const items = contents.filter((item): item is AutodeskItem => item.type === 'items');
+
+    return { folders, items };
+  }
+
+  /**
+   * Iterate over folder contents page by page
+   */
+  async *iterateFolderContents(
+    projectId: string,
+    folderId: string,
+    options: PaginationOptions = {},
+  ): AsyncGenerator<AutodeskFolder | AutodeskItem> {
     try {
-      const response = await this.httpClient.get(
+      yield* paginate<AutodeskFolder | AutodeskItem>(
+        this.httpClient,
         `/data/v1/projects/${projectId}/folders/${folderId}/contents`,
+        options,
       );
-
-      const folders = response.data.data.filter((item: any) => item.type === 'folders');
-      const items = response.data.data.filter((item: any) => item.type === 'items');
-
-      return { folders, items };
     } catch (error) {
       this.logger.error(
         `Failed to fetch folder contents for ${folderId}`,
-        error.response?.data || error.message,
+        describeError(error),
       );
-      throw new Error(`Failed to fetch folder contents`);
+      rethrowAs(error, new Error(`Failed to fetch folder contents`));
     }
   }
 
@@ -61,9 +126,9 @@ export class AutodeskDataManagementService {
     } catch (error) {
       this.logger.error(
         `Failed to fetch folder ${folderId}`,
-        error.response?.data || error.message,
+        describeError(error),
       );
-      throw new NotFoundException(`Folder ${folderId} not found`);
+      rethrowAs(error, new NotFoundException(`Folder ${folderId} not found`));
     }
   }
 
@@ -71,11 +136,18 @@ export class AutodeskDataManagementService {
    * Create a new folder (FIXED VERSION)
    * Automatically detects the correct folder type from parent
    */
+  createFolder<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    parentFolderId: string,
+    folderName: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskFolder, O>>;
   async createFolder(
     projectId: string,
     parentFolderId: string,
     folderName: string,
-  ): Promise<AutodeskFolder> {
+    safety?: DryRunOptions,
+  ): Promise<AutodeskFolder | AutodeskPlannedChange> {
     try {
       // Step 1: Get parent folder to determine correct extension type
       const parentFolder = await this.getFolder(projectId, parentFolderId);
@@ -119,6 +191,16 @@ export class AutodeskDataManagementService {
         },
       };
 
+      if (this.isDryRun(safety)) {
+        return this.planChange({
+          operation: 'createFolder',
+          description: `Create folder "${folderName}" in folder ${parentFolderId}`,
+          method: 'POST',
+          url: `/data/v1/projects/${projectId}/folders`,
+          body,
+        });
+      }
+
       const response = await this.httpClient.post(
         `/data/v1/projects/${projectId}/folders`,
         body,
@@ -129,27 +211,30 @@ export class AutodeskDataManagementService {
     } catch (error) {
       this.logger.error(
         `Failed to create folder ${folderName}`,
-        error.response?.data || error.message,
+        describeError(error),
       );
       
-      // Log the full error for debugging
-      if (error.response?.data) {
-        this.logger.error('Error details:', JSON.stringify(error.response.data, null, 2));
-      }
-      
-      throw new BadRequestException(`Failed to create folder: ${folderName}`);
+      rethrowAs(error, `Failed to create folder: ${folderName}`);
     }
   }
 
   /**
    * Create folder with explicit extension type (alternative method)
    */
+  createFolderWithType<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    parentFolderId: string,
+    folderName: string,
+    extensionType?: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskFolder, O>>;
   async createFolderWithType(
     projectId: string,
     parentFolderId: string,
     folderName: string,
     extensionType: string = 'folders:autodesk.bim360:Folder',
-  ): Promise<AutodeskFolder> {
+    safety?: DryRunOptions,
+  ): Promise<AutodeskFolder | AutodeskPlannedChange> {
     try {
       const body = {
         jsonapi: { version: '1.0' },
@@ -173,6 +258,16 @@ export class AutodeskDataManagementService {
         },
       };
 
+      if (this.isDryRun(safety)) {
+        return this.planChange({
+          operation: 'createFolderWithType',
+          description: `Create folder "${folderName}" (${extensionType}) in folder ${parentFolderId}`,
+          method: 'POST',
+          url: `/data/v1/projects/${projectId}/folders`,
+          body,
+        });
+      }
+
       this.logger.log(`Creating folder with type: ${extensionType}`);
       
       const response = await this.httpClient.post(
@@ -185,14 +280,10 @@ export class AutodeskDataManagementService {
     } catch (error) {
       this.logger.error(
         `Failed to create folder ${folderName}`,
-        error.response?.data || error.message,
+        describeError(error),
       );
       
-      if (error.response?.data) {
-        this.logger.error('Error details:', JSON.stringify(error.response.data, null, 2));
-      }
-      
-      throw new BadRequestException(`Failed to create folder: ${folderName}`);
+      rethrowAs(error, `Failed to create folder: ${folderName}`);
     }
   }
 
@@ -208,9 +299,9 @@ export class AutodeskDataManagementService {
     } catch (error) {
       this.logger.error(
         `Failed to fetch item ${itemId}`,
-        error.response?.data || error.message,
+        describeError(error),
       );
-      throw new NotFoundException(`Item ${itemId} not found`);
+      rethrowAs(error, new NotFoundException(`Item ${itemId} not found`));
     }
   }
 
@@ -220,29 +311,61 @@ export class AutodeskDataManagementService {
  /**
  * Upload a file to ACC (Updated for modern API)
  */
-async uploadFile(options: UploadFileOptions): Promise<AutodeskItem> {
-  const { fileName, folderId, projectId, fileBuffer, contentType } = options;
+uploadFile<O extends DryRunOptions = NoDryRun>(
+  options: UploadFileOptions,
+  safety?: O,
+): Promise<DryRunResult<AutodeskItem, O>>;
+async uploadFile(
+  options: UploadFileOptions,
+  safety?: DryRunOptions,
+): Promise<AutodeskItem | AutodeskPlannedChange> {
+  const { folderId, projectId, onConflict } = options;
+  let fileName = options.fileName;
 
-  try {
-    // Step 1: Create storage location
-    const storage = await this.createStorage(projectId, folderId, fileName);
-    this.logger.log(`Created storage location for: ${fileName}`);
-    
-    // Step 2: Get signed upload URL
-    const { signedUrl, uploadKey } = await this.getSignedUploadUrl(storage.id);
-    
-    // Step 3: Upload file to signed URL
-    await this.uploadToSignedUrl(signedUrl, fileBuffer, contentType);
+  // Look for an existing item with the same name when a conflict policy is set
+  if (onConflict) {
+    const { items } = await this.getFolderContents(projectId, folderId);
+    const existing = items.find((item) => item.attributes?.displayName === fileName);
+
+    if (existing) {
+      switch (onConflict) {
+        case 'skip':
+          this.logger.log(`Skipping upload, "${fileName}" already exists (ID: ${existing.id})`);
+          return existing;
+        case 'newVersion':
+          return this.uploadNewVersion(projectId, existing.id, options, safety);
+        case 'rename':
+          fileName = this.getAvailableName(fileName, items);
+          this.logger.log(`"${options.fileName}" already exists, uploading as "${fileName}"`);
+          break;
+        default:
+          throw new AutodeskConflictError(
+            `An item named "${fileName}" already exists in folder ${folderId}`,
+            { status: 409, detail: `Item ${existing.id} has the same name` },
+          );
+      }
+    }
+  }
+
+  if (this.isDryRun(safety)) {
+    return this.planChange({
+      operation: 'uploadFile',
+      description: `Upload "${fileName}" to folder ${folderId}`,
+      method: 'POST',
+      url: `/data/v1/projects/${projectId}/items`,
+    });
+  }
 
-    // Step 4: Complete the upload
-    await this.completeUpload(storage.id,uploadKey);
+  try {
+    // Step 1: Upload file content to a new storage object
+    const storageId = await this.uploadStorageObject(projectId, folderId, fileName, options);
 
-    // Step 5: Create first version of the item
+    // Step 2: Create first version of the item
     const item = await this.createFirstVersion(
       projectId,
       folderId,
       fileName,
-      storage.id,
+      storageId,
     );
 
     this.logger.log(`Successfully uploaded file: ${fileName}`);
@@ -250,96 +373,277 @@ async uploadFile(options: UploadFileOptions): Promise<AutodeskItem> {
   } catch (error) {
     this.logger.error(
       `Failed to upload file ${fileName}`,
-      error.response?.data || error.message,
+      describeError(error),
     );
-    throw new BadRequestException(`Failed to upload file: ${error.message}`);
+    rethrowAs(error, `Failed to upload file: ${error.message}`);
   }
 }
 
 /**
- * Get signed upload URL for storage object
+ * Upload many files to a folder in parallel, with a per-file report
+ * With a checkpoint file, a rerun after a crash skips the files that already finished
  */
-private async getSignedUploadUrl(objectId: string): Promise<{
-  signedUrl: string;
-  uploadKey: string;
-}> {
-  try {
-    // Extract bucket key and object key from objectId
-    const matches = objectId.match(/urn:adsk\.objects:os\.object:([^/]+)\/(.+)/);
-    if (!matches) {
-      throw new BadRequestException('Invalid object ID format');
+async uploadMany(
+  projectId: string,
+  folderId: string,
+  files: BulkUploadFile[],
+  options: BulkUploadOptions = {},
+): Promise<BulkUploadReport> {
+  const startedAt = Date.now();
+  const dryRun = resolveDryRun(this.options?.safety, options);
+  const checkpoint = await this.readCheckpoint(projectId, options.checkpointFile);
+  let checkpointWrite = Promise.resolve();
+  let aborted = false;
+
+  // Files the skip policy leaves alone are reported as skipped rather than uploaded
+  const existing = files.some((file) => (file.onConflict ?? options.onConflict) === 'skip')
+    ? (await this.getFolderContents(projectId, folderId)).items
+    : [];
+
+  const results: BulkUploadFileResult[] = files.map((file) => {
+    const done = checkpoint.files[this.getCheckpointKey(folderId, file)];
+    if (done) {
+      const { itemId, versionId, bytes } = done;
+      return { fileName: file.fileName, status: 'resumed', itemId, versionId, bytes };
+    }
+
+    const skipped =
+      (file.onConflict ?? options.onConflict) === 'skip' &&
+      existing.find((item) => item.attributes?.displayName === file.fileName);
+    if (skipped) {
+      return {
+        fileName: file.fileName,
+        status: 'skipped',
+        itemId: skipped.id,
+        versionId: skipped.relationships?.tip?.data?.id,
+      };
     }
+    return { fileName: file.fileName, status: 'notStarted' };
+  });
+  const pending = files
+    .map((file, index) => ({ file, index }))
+    .filter(({ index }) => results[index].status === 'notStarted');
 
-    const [, bucketKey, objectKey] = matches;
+  if (pending.length < files.length) {
+    this.logger.log(`Resuming upload: ${files.length - pending.length} file(s) already done`);
+  }
 
-    const response = await this.httpClient.get(
-      `/oss/v2/buckets/${bucketKey}/objects/${encodeURIComponent(objectKey)}/signeds3upload`,
-      {
-        params: {
-          minutesExpiration: 30,
-        },
-      },
-    );
+  const concurrency = options.concurrency ?? AUTODESK_BULK_UPLOAD_CONCURRENCY;
+  await runTaskQueue(pending, concurrency, async ({ file, index }) => {
+    if (aborted) {
+      return;
+    }
 
-    return {
-      signedUrl: response.data.urls[0],
-      uploadKey: response.data.uploadKey,
-    };
+    const fileStartedAt = Date.now();
+    const result = results[index];
+    try {
+      result.bytes = await getUploadSize(file);
+      const item = await this.uploadFile(
+        { ...file, projectId, folderId, onConflict: file.onConflict ?? options.onConflict },
+        { dryRun },
+      );
+
+      if (isPlannedChange(item)) {
+        result.status = 'planned';
+      } else {
+        result.status = 'uploaded';
+        result.itemId = item.id;
+        result.versionId = item.relationships?.tip?.data?.id;
+
+        checkpoint.files[this.getCheckpointKey(folderId, file)] = {
+          itemId: result.itemId,
+          versionId: result.versionId,
+          bytes: result.bytes,
+          completedAt: new Date().toISOString(),
+        };
+        // Writes are chained so they never overlap; a failed write only costs a re-upload
+        checkpointWrite = checkpointWrite
+          .then(() => this.writeCheckpoint(options.checkpointFile, checkpoint))
+          .catch((error) =>
+            this.logger.warn(`Failed to write upload checkpoint: ${error.message}`),
+          );
+      }
+    } catch (error) {
+      result.status = 'failed';
+      result.error = { message: error.message, status: error.status };
+      if (!options.continueOnError) {
+        aborted = true;
+      }
+    }
+
+    result.durationMs = Date.now() - fileStartedAt;
+    options.onFileComplete?.(result);
+  });
+
+  await checkpointWrite;
+
+  const count = (status: BulkUploadFileResult['status']) =>
+    results.filter((result) => result.status === status).length;
+  const report: BulkUploadReport = {
+    files: results,
+    uploaded: count('uploaded'),
+    resumed: count('resumed'),
+    skipped: count('skipped'),
+    planned: count('planned'),
+    failed: count('failed'),
+    aborted: aborted && count('notStarted') > 0,
+    bytes: results.reduce(
+      (total, result) => total + (result.status === 'uploaded' ? result.bytes ?? 0 : 0),
+      0,
+    ),
+    durationMs: Date.now() - startedAt,
+  };
+
+  this.logger.log(
+    `Bulk upload to folder ${folderId}: ${report.uploaded} uploaded, ` +
+      `${report.resumed} resumed, ${report.skipped} skipped, ${report.planned} planned, ` +
+      `${report.failed} failed`,
+  );
+  return report;
+}
+
+/**
+ * Load the finished uploads of an earlier run; a missing file starts a new checkpoint
+ */
+private async readCheckpoint(
+  projectId: string,
+  checkpointFile?: string,
+): Promise<BulkUploadCheckpoint> {
+  const empty: BulkUploadCheckpoint = { version: 2, projectId, files: {} };
+  if (!checkpointFile) {
+    return empty;
+  }
+
+  let checkpoint: BulkUploadCheckpoint;
+  try {
+    checkpoint = JSON.parse(await readFile(checkpointFile, 'utf8'));
   } catch (error) {
-    this.logger.error('Failed to get signed upload URL', error.response?.data || error.message);
-    throw error;
+    if (error.code === 'ENOENT') {
+      return empty;
+    }
+    throw new BadRequestException(`Failed to read upload checkpoint: ${error.message}`);
+  }
+
+  if (checkpoint.version !== 2) {
+    throw new BadRequestException(
+      `Upload checkpoint ${checkpointFile} has an old format; remove it to start over`,
+    );
+  }
+  if (checkpoint.projectId !== projectId) {
+    throw new BadRequestException(
+      `Upload checkpoint ${checkpointFile} belongs to project ${checkpoint.projectId}`,
+    );
   }
+  return checkpoint;
 }
 
 /**
- * Upload file to signed S3 URL
+ * Checkpoint entries are per target folder and source, so files that share a name
+ * (from different directories, or sent to different folders) are tracked apart
  */
-private async uploadToSignedUrl(
-  signedUrl: string,
-  fileBuffer: Buffer,
-  contentType = 'application/octet-stream',
+private getCheckpointKey(folderId: string, file: BulkUploadFile): string {
+  return `${folderId}:${file.filePath ? resolve(file.filePath) : file.fileName}`;
+}
+
+private async writeCheckpoint(
+  checkpointFile: string | undefined,
+  checkpoint: BulkUploadCheckpoint,
 ): Promise<void> {
-  try {
-    // Use axios without auth interceptor for S3 upload
-    await axios.put(signedUrl, fileBuffer, {
-      headers: {
-        'Content-Type': contentType,
-        'Content-Length': fileBuffer.length,
-      },
-    });
-    
-    this.logger.log('File uploaded to signed URL');
-  } catch (error) {
-    this.logger.error('Failed to upload to signed URL', error.message);
-    throw error;
+  if (!checkpointFile) {
+    return;
   }
+
+  // Write next to the checkpoint and rename, so a crash mid-write keeps the old one
+  const partial = `${checkpointFile}.partial`;
+  await writeFile(partial, JSON.stringify(checkpoint, null, 2));
+  await rename(partial, checkpointFile);
 }
 
 /**
- * Complete the upload (finalize the object)
+ * Upload a file as a new version of an existing item
  */
-private async completeUpload(objectId: string,uploadKey: string): Promise<void> {
+uploadNewVersion<O extends DryRunOptions = NoDryRun>(
+  projectId: string,
+  itemId: string,
+  file: UploadVersionOptions,
+  safety?: O,
+): Promise<DryRunResult<AutodeskItem, O>>;
+async uploadNewVersion(
+  projectId: string,
+  itemId: string,
+  file: UploadVersionOptions,
+  safety?: DryRunOptions,
+): Promise<AutodeskItem | AutodeskPlannedChange> {
+  const { fileName } = file;
+
   try {
-    // Extract bucket key and object key from objectId
-    const matches = objectId.match(/urn:adsk\.objects:os\.object:([^/]+)\/(.+)/);
-    if (!matches) {
-      throw new BadRequestException('Invalid object ID format');
+    const item = await this.getItem(projectId, itemId);
+    const folderId = item.relationships?.parent?.data?.id;
+    if (!folderId) {
+      throw new BadRequestException(`Item ${itemId} has no parent folder`);
     }
 
-    const [, bucketKey, objectKey] = matches;
+    if (this.isDryRun(safety)) {
+      return this.planChange({
+        operation: 'uploadNewVersion',
+        description: `Upload "${fileName}" as a new version of item ${itemId}`,
+        method: 'POST',
+        url: `/data/v1/projects/${projectId}/versions`,
+      });
+    }
 
-    await this.httpClient.post(
-      `/oss/v2/buckets/${bucketKey}/objects/${encodeURIComponent(objectKey)}/signeds3upload`,
-      {
-        uploadKey: uploadKey, // Empty string to finalize single-part upload
-      },
-    );
-    
-    this.logger.log('Upload completed successfully');
+    // Step 1: Upload file content to a new storage object
+    const storageId = await this.uploadStorageObject(projectId, folderId, fileName, file);
+
+    // Step 2: Create the new version on the item
+    await this.createVersion(projectId, item, fileName, storageId);
+
+    this.logger.log(`Successfully uploaded new version of ${itemId}: ${fileName}`);
+    return await this.getItem(projectId, itemId);
   } catch (error) {
-    this.logger.error('Failed to complete upload', error.response?.data || error.message);
-    throw error;
+    this.logger.error(
+      `Failed to upload new version of ${itemId}`,
+      describeError(error),
+    );
+    rethrowAs(error, `Failed to upload new version: ${error.message}`);
+  }
+}
+
+/**
+ * Create a storage object, upload the file content and finalize it
+ * Returns the storage object ID
+ */
+private async uploadStorageObject(
+  projectId: string,
+  folderId: string,
+  fileName: string,
+  file: UploadVersionOptions,
+): Promise<string> {
+  // Step 1: Create storage location
+  const storage = await this.createStorage(projectId, folderId, fileName);
+  this.logger.log(`Created storage location for: ${fileName}`);
+
+  // Step 2: Upload the file parts to the storage object and finalize it
+  const { bucketKey, objectKey } = this.oss.parseObjectId(storage.id);
+  await this.oss.uploadObject(bucketKey, objectKey, file);
+
+  return storage.id;
+}
+
+/**
+ * Find a free display name in a folder, e.g. "plan (1).pdf"
+ */
+private getAvailableName(fileName: string, items: AutodeskItem[]): string {
+  const names = new Set(items.map((item) => item.attributes?.displayName));
+  const extensionIndex = fileName.lastIndexOf('.');
+  const base = extensionIndex > 0 ? fileName.slice(0, extensionIndex) : fileName;
+  const extension = extensionIndex > 0 ? fileName.slice(extensionIndex) : '';
+
+  let candidate = fileName;
+  for (let index = 1; names.has(candidate); index++) {
+    candidate = `${base} (${index})${extension}`;
   }
+  return candidate;
 }
 
   /**
@@ -377,31 +681,19 @@ private async completeUpload(objectId: string,uploadKey: string): Promise<void>
   }
 
   /**
-   * Upload file buffer to storage
+   * Item and version extension types matching the parent folder's type
    */
-  private async uploadToStorage(
-    objectId: string,
-    fileBuffer: Buffer,
-    contentType = 'application/octet-stream',
-  ): Promise<void> {
-    // Extract bucket key and object key from objectId
-    const matches = objectId.match(/urn:adsk\.objects:os\.object:([^/]+)\/(.+)/);
-    if (!matches) {
-      throw new BadRequestException('Invalid object ID format');
-    }
+  private getFileTypes(parentFolder: AutodeskFolder): { itemType: string; versionType: string } {
+    const parentType = parentFolder.attributes?.extension?.type || '';
 
-    const [, bucketKey, objectKey] = matches;
+    if (!parentType.includes('bim360') && parentType.includes('core')) {
+      return { itemType: 'items:autodesk.core:File', versionType: 'versions:autodesk.core:File' };
+    }
 
-    await this.httpClient.put(
-      `/oss/v2/buckets/${bucketKey}/objects/${encodeURIComponent(objectKey)}`,
-      fileBuffer,
-      {
-        headers: {
-          'Content-Type': contentType,
-          'Content-Length': fileBuffer.length,
-        },
-      },
-    );
+    return {
+      itemType: 'items:autodesk.bim360:File',
+      versionType: 'versions:autodesk.bim360:File',
+    };
   }
 
   /**
@@ -421,21 +713,7 @@ private async createFirstVersion(
     const parentFolder = await this.getFolder(projectId, folderId);
     
     // Determine the correct extension type based on parent folder
-    let itemType = 'items:autodesk.bim360:File';
-    let versionType = 'versions:autodesk.bim360:File';
-    
-    if (parentFolder.attributes?.extension?.type) {
-      const parentType = parentFolder.attributes.extension.type;
-      
-      // Match the parent's folder type
-      if (parentType.includes('bim360')) {
-        itemType = 'items:autodesk.bim360:File';
-        versionType = 'versions:autodesk.bim360:File';
-      } else if (parentType.includes('core')) {
-        itemType = 'items:autodesk.core:File';
-        versionType = 'versions:autodesk.core:File';
-      }
-    }
+    const { itemType, versionType } = this.getFileTypes(parentFolder);
 
     this.logger.log(`Creating item with type: ${itemType}, version type: ${versionType}`);
 
@@ -497,145 +775,1153 @@ private async createFirstVersion(
   } catch (error) {
     this.logger.error(
       `Failed to create first version for ${fileName}`,
-      error.response?.data || error.message,
+      describeError(error),
     );
     
-    if (error.response?.data) {
-      this.logger.error('Error details:', JSON.stringify(error.response.data, null, 2));
-    }
-    
     throw error;
   }
 }
   /**
-   * Delete an item
+   * Get all versions of an item, newest first
    */
-  async deleteItem(projectId: string, itemId: string): Promise<void> {
+  async getItemVersions(
+    projectId: string,
+    itemId: string,
+    options: PaginationOptions = {},
+  ): Promise<AutodeskVersion[]> {
+    return collect(this.iterateItemVersions(projectId, itemId, options));
+  }
+
+  /**
+   * Iterate over the versions of an item page by page
+   */
+  async *iterateItemVersions(
+    projectId: string,
+    itemId: string,
+    options: PaginationOptions = {},
+  ): AsyncGenerator<AutodeskVersion> {
     try {
-      await this.httpClient.delete(`/data/v1/projects/${projectId}/items/${itemId}`);
-      this.logger.log(`Deleted item: ${itemId}`);
+      yield* paginate<AutodeskVersion>(
+        this.httpClient,
+        `/data/v1/projects/${projectId}/items/${itemId}/versions`,
+        options,
+      );
     } catch (error) {
       this.logger.error(
-        `Failed to delete item ${itemId}`,
-        error.response?.data || error.message,
+        `Failed to fetch versions for item ${itemId}`,
+        describeError(error),
       );
-      throw new BadRequestException(`Failed to delete item`);
+      rethrowAs(error, new NotFoundException(`Versions for item ${itemId} not found`));
     }
   }
 
   /**
-   * Search for items in a project
+   * Get a specific version by ID
    */
-  async searchItems(projectId: string, filter: string): Promise<AutodeskItem[]> {
+  async getVersion(projectId: string, versionId: string): Promise<AutodeskVersion> {
     try {
       const response = await this.httpClient.get(
-        `/data/v1/projects/${projectId}/items`,
-        {
-          params: { filter },
-        },
+        `/data/v1/projects/${projectId}/versions/${encodeURIComponent(versionId)}`,
       );
       return response.data.data;
     } catch (error) {
       this.logger.error(
-        `Failed to search items in project ${projectId}`,
-        error.response?.data || error.message,
+        `Failed to fetch version ${versionId}`,
+        describeError(error),
       );
-      throw new Error('Failed to search items');
+      rethrowAs(error, new NotFoundException(`Version ${versionId} not found`));
     }
   }
 
   /**
- * Create folder at project root (alternative method when parent folder is unknown)
- */
-async createRootFolder(
-  projectId: string,
-  folderName: string,
-): Promise<AutodeskFolder> {
-  try {
-    this.logger.log(`Creating folder "${folderName}" at project root`);
-    
-    // First, try to get the Plans folder (default root for most ACC projects)
+   * Get the tip (latest) version of an item
+   */
+  async getTipVersion(projectId: string, itemId: string): Promise<AutodeskVersion> {
     try {
-      const topFolders = await this.getProjectTopFolders(projectId);
-      
-      // Look for "Plans" or "Project Files" folder
-      const rootFolder = topFolders.find(f => {
-        const name = f.attributes?.name || f.attributes?.displayName || '';
-        return name === 'Plans' || name === 'Project Files' || name === 'Plan';
-      });
-      
-      if (rootFolder) {
-        this.logger.log(`Found root folder: ${rootFolder.attributes?.name} (${rootFolder.id})`);
-        return await this.createFolder(projectId, rootFolder.id, folderName);
-      }
-      
-      // If no standard root found, use the first top folder
-      if (topFolders.length > 0) {
-        const firstFolder = topFolders[0];
-        this.logger.log(`Using first top folder: ${firstFolder.attributes?.name} (${firstFolder.id})`);
-        return await this.createFolder(projectId, firstFolder.id, folderName);
-      }
+      const response = await this.httpClient.get(
+        `/data/v1/projects/${projectId}/items/${itemId}/tip`,
+      );
+      return response.data.data;
     } catch (error) {
-      this.logger.warn('Failed to get top folders, trying direct creation');
+      this.logger.error(
+        `Failed to fetch tip version of item ${itemId}`,
+        describeError(error),
+      );
+      rethrowAs(error, new NotFoundException(`Tip version of item ${itemId} not found`));
     }
-    
-    // Last resort: try to create at project level directly
-    // Note: This may fail depending on ACC/BIM360 permissions
-    const body = {
-      jsonapi: { version: '1.0' },
-      data: {
-        type: 'folders',
-        attributes: {
-          name: folderName,
-          extension: {
-            type: 'folders:autodesk.bim360:Folder',
-            version: '1.0',
+  }
+
+  /**
+   * Get the storage location and a signed S3 download URL for a version
+   */
+  async getVersionDownloadInfo(
+    projectId: string,
+    versionId: string,
+  ): Promise<AutodeskVersionDownloadInfo> {
+    const version = await this.getVersion(projectId, versionId);
+    return this.getDownloadInfo(version);
+  }
+
+  /**
+   * Restore an older version by copying it as the new tip of its item
+   */
+  restoreVersion<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    itemId: string,
+    versionId: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskVersion, O>>;
+  async restoreVersion(
+    projectId: string,
+    itemId: string,
+    versionId: string,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskVersion | AutodeskPlannedChange> {
+    try {
+      const version = await this.getVersion(projectId, versionId);
+
+      const body = {
+        jsonapi: { version: '1.0' },
+        data: {
+          type: 'versions',
+          attributes: {
+            name: version.attributes.name,
           },
-        },
-        relationships: {
-          parent: {
-            data: {
-              type: 'folders',
-              id: `${projectId}` // Use project ID as parent
+          relationships: {
+            item: {
+              data: {
+                type: 'items',
+                id: itemId,
+              },
             },
           },
         },
-      },
-    };
+      };
 
-    const response = await this.httpClient.post(
-      `/data/v1/projects/${projectId}/folders`,
-      body,
-    );
-    
-    this.logger.log(`Created folder at project root: ${folderName}`);
-    return response.data.data;
-  } catch (error) {
-    this.logger.error(
-      `Failed to create folder at root: ${folderName}`,
-      error.response?.data || error.message
-    );
-    
-    if (error.response?.data) {
-      this.logger.error('Error details:', JSON.stringify(error.response.data, null, 2));
+      if (this.isDryRun(safety)) {
+        return this.planChange({
+          operation: 'restoreVersion',
+          description:
+            `Restore version ${version.attributes.versionNumber} of item ${itemId} as new tip`,
+          method: 'POST',
+          url: `/data/v1/projects/${projectId}/versions`,
+          params: { copyFrom: versionId },
+          body,
+        });
+      }
+
+      const response = await this.httpClient.post(
+        `/data/v1/projects/${projectId}/versions`,
+        body,
+        {
+          params: { copyFrom: versionId },
+        },
+      );
+
+      this.logger.log(
+        `Restored version ${version.attributes.versionNumber} of ${itemId} as new tip`,
+      );
+      return response.data.data;
+    } catch (error) {
+      this.logger.error(
+        `Failed to restore version ${versionId} of item ${itemId}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to restore version: ${error.message}`);
     }
-    
-    throw new BadRequestException(`Failed to create folder at root: ${folderName}`);
   }
-}
 
-/**
- * Get project top folders (root level folders)
- */
-async getProjectTopFolders(projectId: string): Promise<AutodeskFolder[]> {
+  /**
+   * Download an item's tip version (or a specific version) as a stream
+   */
+  async downloadItem(
+    projectId: string,
+    itemId: string,
+    options: DownloadItemOptions = {},
+  ): Promise<AutodeskDownloadResult> {
+    try {
+      const version = options.versionId
+        ? await this.getVersion(projectId, options.versionId)
+        : await this.getTipVersion(projectId, itemId);
+
+      // A version of another item would be downloaded under this item's name
+      const versionItemId = version.relationships?.item?.data?.id;
+      if (options.versionId && versionItemId !== itemId) {
+        throw new AutodeskNotFoundError(
+          `Version ${options.versionId} not found on item ${itemId}`,
+          { status: 404, detail: `The version belongs to item ${versionItemId ?? 'unknown'}` },
+        );
+      }
+
+      const info = await this.getDownloadInfo(version);
+
+      // Use axios without auth interceptor for S3 download
+      const response = await axios
+        .get<Readable>(info.url, {
+          responseType: 'stream',
+        })
+        .catch((error) => {
+          throw createAutodeskApiError(error, 'GET signed download URL');
+        });
+
+      const contentType =
+        info.contentType || response.headers['content-type'] || 'application/octet-stream';
+      const size = Number(info.size ?? response.headers['content-length'] ?? 0);
+
+      this.logger.log(`Started download of ${info.fileName} (${size} bytes)`);
+
+      return {
+        stream: response.data,
+        fileName: info.fileName,
+        contentType,
+        size,
+        versionId: info.versionId,
+        storageId: info.storageId,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to download item ${itemId}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to download item: ${error.message}`);
+    }
+  }
+
+  /**
+   * Download an item to a local file
+   */
+  async downloadToFile(
+    projectId: string,
+    itemId: string,
+    filePath: string,
+    options: DownloadItemOptions = {},
+  ): Promise<Omit<AutodeskDownloadResult, 'stream'> & { filePath: string }> {
+    const { stream, ...download } = await this.downloadItem(projectId, itemId, options);
+
+    try {
+      await pipeline(stream, createWriteStream(filePath));
+      this.logger.log(`Downloaded ${download.fileName} to ${filePath}`);
+      return { ...download, filePath };
+    } catch (error) {
+      this.logger.error(`Failed to write ${download.fileName} to ${filePath}`, error.message);
+      throw new BadRequestException(`Failed to download item to file: ${error.message}`);
+    }
+  }
+
+  /**
+   * Request a signed S3 download URL for a version's storage object
+   */
+  private async getDownloadInfo(version: AutodeskVersion): Promise<AutodeskVersionDownloadInfo> {
+    const storageId = version.relationships?.storage?.data?.id;
+    if (!storageId) {
+      throw new BadRequestException(`Version ${version.id} has no storage location`);
+    }
+
+    const { bucketKey, objectKey } = this.oss.parseObjectId(storageId);
+    const download = await this.oss.getDownloadUrl(bucketKey, objectKey);
+
+    return {
+      versionId: version.id,
+      versionNumber: version.attributes?.versionNumber,
+      fileName: version.attributes?.name || version.attributes?.displayName || objectKey,
+      storageId,
+      bucketKey,
+      objectKey,
+      url: download.url,
+      expiresAt: download.expiresAt,
+      size: download.size ?? version.attributes?.storageSize,
+      sha1: download.sha1,
+      contentType: download.contentType,
+    };
+  }
+
+  /**
+   * Create a new version of an existing item from an uploaded storage object
+   */
+  private async createVersion(
+    projectId: string,
+    item: AutodeskItem,
+    fileName: string,
+    objectId: string,
+  ): Promise<AutodeskVersion> {
+    // Versions follow the item's extension type, e.g. items:autodesk.bim360:File
+    const itemType = item.attributes?.extension?.type || 'items:autodesk.bim360:File';
+    const versionType = itemType.replace(/^items:/, 'versions:');
+
+    const body = {
+      jsonapi: { version: '1.0' },
+      data: {
+        type: 'versions',
+        attributes: {
+          name: fileName,
+          extension: {
+            type: versionType,
+            version: '1.0',
+          },
+        },
+        relationships: {
+          item: {
+            data: {
+              type: 'items',
+              id: item.id,
+            },
+          },
+          storage: {
+            data: {
+              type: 'objects',
+              id: objectId,
+            },
+          },
+        },
+      },
+    };
+
+    const response = await this.httpClient.post(
+      `/data/v1/projects/${projectId}/versions`,
+      body,
+    );
+
+    return response.data.data;
+  }
+
+  /**
+   * Delete an item (soft delete: adds a "Deleted" version, see restoreItem)
+   * Earlier releases sent DELETE /items/{id}, which the Data Management API does not
+   * support; the item is now hidden from its folder but kept in the project's history
+   */
+  deleteItem<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    itemId: string,
+    safety?: O,
+  ): Promise<DryRunResult<void, O>>;
+  async deleteItem(
+    projectId: string,
+    itemId: string,
+    safety?: DryRunOptions,
+  ): Promise<void | AutodeskPlannedChange> {
+    try {
+      const body = {
+        jsonapi: { version: '1.0' },
+        data: {
+          type: 'versions',
+          attributes: {
+            extension: {
+              type: 'versions:autodesk.core:Deleted',
+              version: '1.0',
+            },
+          },
+          relationships: {
+            item: {
+              data: {
+                type: 'items',
+                id: itemId,
+              },
+            },
+          },
+        },
+      };
+
+      if (this.isDryRun(safety)) {
+        return this.planChange({
+          operation: 'deleteItem',
+          description: `Delete item ${itemId}`,
+          method: 'POST',
+          url: `/data/v1/projects/${projectId}/versions`,
+          body,
+        });
+      }
+
+      await this.httpClient.post(`/data/v1/projects/${projectId}/versions`, body);
+      this.logger.log(`Deleted item: ${itemId}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete item ${itemId}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to delete item`);
+    }
+  }
+
+  /**
+   * Restore a deleted item by copying its latest non-deleted version as the new tip
+   */
+  restoreItem<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    itemId: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskVersion, O>>;
+  async restoreItem(
+    projectId: string,
+    itemId: string,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskVersion | AutodeskPlannedChange> {
+    try {
+      const versions = await this.getItemVersions(projectId, itemId);
+      const sorted = [...versions].sort(
+        (a, b) => b.attributes.versionNumber - a.attributes.versionNumber,
+      );
+
+      if (sorted.length && !this.isDeletedVersion(sorted[0])) {
+        this.logger.log(`Item ${itemId} is not deleted, nothing to restore`);
+        return sorted[0];
+      }
+
+      const previous = sorted.find((version) => !this.isDeletedVersion(version));
+      if (!previous) {
+        throw new AutodeskNotFoundError(`Item ${itemId} has no version to restore`, {
+          status: 404,
+          detail: 'Every version of the item is a deleted version',
+        });
+      }
+
+      return await this.restoreVersion(projectId, itemId, previous.id, safety);
+    } catch (error) {
+      this.logger.error(`Failed to restore item ${itemId}`, describeError(error));
+      rethrowAs(error, `Failed to restore item: ${error.message}`);
+    }
+  }
+
+  /**
+   * List the deleted items and hidden folders directly inside a folder
+   */
+  async listDeleted(projectId: string, folderId: string): Promise<AutodeskDeletedContents> {
+    try {
+      const contents = await collect(
+        paginate<AutodeskFolder | AutodeskItem>(
+          this.httpClient,
+          `/data/v1/projects/${projectId}/folders/${folderId}/contents`,
+          {},
+          { params: { includeHidden: true } },
+        ),
+      );
+
+      const hidden = contents.filter((entry) => entry.attributes?.hidden);
+
+      return {
+        folders: hidden.filter((entry): entry is AutodeskFolder => entry.type === 'folders'),
+        items: hidden.filter((entry): entry is AutodeskItem => entry.type === 'items'),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to list deleted contents of folder ${folderId}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to list deleted contents: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a folder. ACC folders are soft-deleted by hiding them; with
+   * recursive the folder's items and subfolders are deleted first.
+   */
+  deleteFolder<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    folderId: string,
+    options?: DeleteFolderOptions,
+    safety?: O,
+  ): Promise<DryRunResult<void, O>>;
+  async deleteFolder(
+    projectId: string,
+    folderId: string,
+    options: DeleteFolderOptions = {},
+    safety?: DryRunOptions,
+  ): Promise<void | AutodeskPlannedChange> {
+    try {
+      // Covers the whole tree, so the nested deletions skip the check
+      await this.assertNotProtected(projectId, folderId, 'deleted', !!options.recursive);
+      return await this.removeFolder(projectId, folderId, !!options.recursive, safety);
+    } catch (error) {
+      this.logger.error(`Failed to delete folder ${folderId}`, describeError(error));
+      rethrowAs(error, `Failed to delete folder: ${error.message}`);
+    }
+  }
+
+  private async removeFolder(
+    projectId: string,
+    folderId: string,
+    recursive: boolean,
+    safety?: DryRunOptions,
+  ): Promise<void | AutodeskPlannedChange> {
+    const { folders, items } = await this.getFolderContents(projectId, folderId);
+
+    if ((folders.length || items.length) && !recursive) {
+      throw new AutodeskConflictError(`Folder ${folderId} is not empty`, {
+        status: 409,
+        detail:
+          `Contains ${folders.length} folder(s) and ${items.length} item(s); ` +
+          'pass recursive to delete them',
+      });
+    }
+
+    // In dry-run mode the nested deletions come back as planned changes
+    const steps: AutodeskPlannedChange[] = [];
+    for (const item of items) {
+      const change = await this.deleteItem(projectId, item.id, safety);
+      if (change) {
+        steps.push(change);
+      }
+    }
+    for (const folder of folders) {
+      const change = await this.removeFolder(projectId, folder.id, recursive, safety);
+      if (change) {
+        steps.push(change);
+      }
+    }
+
+    const hidden = await this.setFolderHidden(projectId, folderId, true, safety);
+    if (isPlannedChange(hidden)) {
+      return {
+        ...hidden,
+        operation: 'deleteFolder',
+        description: `Delete folder ${folderId}`,
+        steps,
+      };
+    }
+    this.logger.log(`Deleted folder: ${folderId}`);
+  }
+
+  /**
+   * Hide a folder
+   */
+  hideFolder<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    folderId: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskFolder, O>>;
+  async hideFolder(
+    projectId: string,
+    folderId: string,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskFolder | AutodeskPlannedChange> {
+    await this.assertNotProtected(projectId, folderId, 'hidden', true);
+    return this.setFolderHidden(projectId, folderId, true, safety);
+  }
+
+  /**
+   * Unhide a folder
+   */
+  unhideFolder<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    folderId: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskFolder, O>>;
+  async unhideFolder(
+    projectId: string,
+    folderId: string,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskFolder | AutodeskPlannedChange> {
+    return this.setFolderHidden(projectId, folderId, false, safety);
+  }
+
+  private async setFolderHidden(
+    projectId: string,
+    folderId: string,
+    hidden: boolean,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskFolder | AutodeskPlannedChange> {
+    try {
+      const body = {
+        jsonapi: { version: '1.0' },
+        data: {
+          type: 'folders',
+          id: folderId,
+          attributes: { hidden },
+        },
+      };
+
+      if (this.isDryRun(safety)) {
+        return this.planChange({
+          operation: hidden ? 'hideFolder' : 'unhideFolder',
+          description: `${hidden ? 'Hide' : 'Unhide'} folder ${folderId}`,
+          method: 'PATCH',
+          url: `/data/v1/projects/${projectId}/folders/${folderId}`,
+          body,
+        });
+      }
+
+      const response = await this.httpClient.patch(
+        `/data/v1/projects/${projectId}/folders/${folderId}`,
+        body,
+      );
+
+      this.logger.log(`${hidden ? 'Hid' : 'Unhid'} folder: ${folderId}`);
+      return response.data.data;
+    } catch (error) {
+      this.logger.error(
+        `Failed to ${hidden ? 'hide' : 'unhide'} folder ${folderId}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to ${hidden ? 'hide' : 'unhide'} folder: ${error.message}`);
+    }
+  }
+
+  private isDeletedVersion(version: AutodeskVersion): boolean {
+    return !!version.attributes.extension?.type?.endsWith(':Deleted');
+  }
+
+  /**
+   * Rename an item
+   */
+  renameItem<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    itemId: string,
+    displayName: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskItem, O>>;
+  async renameItem(
+    projectId: string,
+    itemId: string,
+    displayName: string,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskItem | AutodeskPlannedChange> {
+    try {
+      const item = await this.getItem(projectId, itemId);
+      const folderId = item.relationships?.parent?.data?.id;
+      if (folderId) {
+        await this.assertNameAvailable(projectId, folderId, displayName, itemId);
+      }
+
+      const body = {
+        jsonapi: { version: '1.0' },
+        data: {
+          type: 'items',
+          id: itemId,
+          attributes: { displayName },
+        },
+      };
+
+      if (this.isDryRun(safety)) {
+        return this.planChange({
+          operation: 'renameItem',
+          description: `Rename item ${itemId} to "${displayName}"`,
+          method: 'PATCH',
+          url: `/data/v1/projects/${projectId}/items/${itemId}`,
+          body,
+        });
+      }
+
+      const response = await this.httpClient.patch(
+        `/data/v1/projects/${projectId}/items/${itemId}`,
+        body,
+      );
+
+      this.logger.log(`Renamed item ${itemId} to "${displayName}"`);
+      return response.data.data;
+    } catch (error) {
+      this.logger.error(`Failed to rename item ${itemId}`, describeError(error));
+      rethrowAs(error, `Failed to rename item: ${error.message}`);
+    }
+  }
+
+  /**
+   * Rename a folder
+   */
+  renameFolder<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    folderId: string,
+    name: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskFolder, O>>;
+  async renameFolder(
+    projectId: string,
+    folderId: string,
+    name: string,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskFolder | AutodeskPlannedChange> {
+    try {
+      await this.assertNotProtected(projectId, folderId, 'renamed', false);
+
+      const folder = await this.getFolder(projectId, folderId);
+      const parentId = folder.relationships?.parent?.data?.id;
+      if (parentId) {
+        await this.assertNameAvailable(projectId, parentId, name, folderId);
+      }
+
+      const body = {
+        jsonapi: { version: '1.0' },
+        data: {
+          type: 'folders',
+          id: folderId,
+          attributes: { name },
+        },
+      };
+
+      if (this.isDryRun(safety)) {
+        return this.planChange({
+          operation: 'renameFolder',
+          description: `Rename folder ${folderId} to "${name}"`,
+          method: 'PATCH',
+          url: `/data/v1/projects/${projectId}/folders/${folderId}`,
+          body,
+        });
+      }
+
+      const response = await this.httpClient.patch(
+        `/data/v1/projects/${projectId}/folders/${folderId}`,
+        body,
+      );
+
+      this.logger.log(`Renamed folder ${folderId} to "${name}"`);
+      return response.data.data;
+    } catch (error) {
+      this.logger.error(`Failed to rename folder ${folderId}`, describeError(error));
+      rethrowAs(error, `Failed to rename folder: ${error.message}`);
+    }
+  }
+
+  /**
+   * Move an item to another folder
+   */
+  moveItem<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    itemId: string,
+    targetFolderId: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskItem, O>>;
+  async moveItem(
+    projectId: string,
+    itemId: string,
+    targetFolderId: string,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskItem | AutodeskPlannedChange> {
+    try {
+      const item = await this.getItem(projectId, itemId);
+      await this.assertNameAvailable(projectId, targetFolderId, item.attributes.displayName, itemId);
+
+      const body = {
+        jsonapi: { version: '1.0' },
+        data: {
+          type: 'items',
+          id: itemId,
+          relationships: {
+            parent: {
+              data: {
+                type: 'folders',
+                id: targetFolderId,
+              },
+            },
+          },
+        },
+      };
+
+      if (this.isDryRun(safety)) {
+        return this.planChange({
+          operation: 'moveItem',
+          description: `Move item ${itemId} to folder ${targetFolderId}`,
+          method: 'PATCH',
+          url: `/data/v1/projects/${projectId}/items/${itemId}`,
+          body,
+        });
+      }
+
+      const response = await this.httpClient.patch(
+        `/data/v1/projects/${projectId}/items/${itemId}`,
+        body,
+      );
+
+      this.logger.log(`Moved item ${itemId} to folder ${targetFolderId}`);
+      return response.data.data;
+    } catch (error) {
+      this.logger.error(`Failed to move item ${itemId}`, describeError(error));
+      rethrowAs(error, `Failed to move item: ${error.message}`);
+    }
+  }
+
+  /**
+   * Move a folder (with its contents) into another folder
+   */
+  moveFolder<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    folderId: string,
+    targetFolderId: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskFolder, O>>;
+  async moveFolder(
+    projectId: string,
+    folderId: string,
+    targetFolderId: string,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskFolder | AutodeskPlannedChange> {
+    try {
+      await this.assertNotProtected(projectId, folderId, 'moved', true);
+
+      const folder = await this.getFolder(projectId, folderId);
+      await this.assertNameAvailable(projectId, targetFolderId, folder.attributes.name, folderId);
+
+      const body = {
+        jsonapi: { version: '1.0' },
+        data: {
+          type: 'folders',
+          id: folderId,
+          relationships: {
+            parent: {
+              data: {
+                type: 'folders',
+                id: targetFolderId,
+              },
+            },
+          },
+        },
+      };
+
+      if (this.isDryRun(safety)) {
+        return this.planChange({
+          operation: 'moveFolder',
+          description: `Move folder ${folderId} to folder ${targetFolderId}`,
+          method: 'PATCH',
+          url: `/data/v1/projects/${projectId}/folders/${folderId}`,
+          body,
+        });
+      }
+
+      const response = await this.httpClient.patch(
+        `/data/v1/projects/${projectId}/folders/${folderId}`,
+        body,
+      );
+
+      this.logger.log(`Moved folder ${folderId} to folder ${targetFolderId}`);
+      return response.data.data;
+    } catch (error) {
+      this.logger.error(`Failed to move folder ${folderId}`, describeError(error));
+      rethrowAs(error, `Failed to move folder: ${error.message}`);
+    }
+  }
+
+  /**
+   * Copy an item's tip version into another folder as a new item
+   */
+  copyItem<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    itemId: string,
+    targetFolderId: string,
+    displayName?: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskItem, O>>;
+  async copyItem(
+    projectId: string,
+    itemId: string,
+    targetFolderId: string,
+    displayName?: string,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskItem | AutodeskPlannedChange> {
+    try {
+      const [item, tip, targetFolder] = await Promise.all([
+        this.getItem(projectId, itemId),
+        this.getTipVersion(projectId, itemId),
+        this.getFolder(projectId, targetFolderId),
+      ]);
+      const name = displayName || item.attributes.displayName;
+      await this.assertNameAvailable(projectId, targetFolderId, name);
+
+      const { itemType, versionType } = this.getFileTypes(targetFolder);
+
+      const body = {
+        jsonapi: { version: '1.0' },
+        data: {
+          type: 'items',
+          attributes: {
+            displayName: name,
+            extension: {
+              type: itemType,
+              version: '1.0',
+            },
+          },
+          relationships: {
+            tip: {
+              data: {
+                type: 'versions',
+                id: '1',
+              },
+            },
+            parent: {
+              data: {
+                type: 'folders',
+                id: targetFolderId,
+              },
+            },
+          },
+        },
+        included: [
+          {
+            type: 'versions',
+            id: '1',
+            attributes: {
+              name,
+              extension: {
+                type: versionType,
+                version: '1.0',
+              },
+            },
+          },
+        ],
+      };
+
+      if (this.isDryRun(safety)) {
+        return this.planChange({
+          operation: 'copyItem',
+          description: `Copy item ${itemId} to folder ${targetFolderId} as "${name}"`,
+          method: 'POST',
+          url: `/data/v1/projects/${projectId}/items`,
+          params: { copyFrom: tip.id },
+          body,
+        });
+      }
+
+      const response = await this.httpClient.post(
+        `/data/v1/projects/${projectId}/items`,
+        body,
+        {
+          params: { copyFrom: tip.id },
+        },
+      );
+
+      this.logger.log(`Copied item ${itemId} to folder ${targetFolderId} as "${name}"`);
+      return response.data.data;
+    } catch (error) {
+      this.logger.error(`Failed to copy item ${itemId}`, describeError(error));
+      rethrowAs(error, `Failed to copy item: ${error.message}`);
+    }
+  }
+
+  private isDryRun(safety?: DryRunOptions): boolean {
+    return resolveDryRun(this.options?.safety, safety);
+  }
+
+  /**
+   * Log a mutating request that dry-run mode keeps from being sent
+   */
+  private planChange(change: Omit<AutodeskPlannedChange, 'dryRun'>): AutodeskPlannedChange {
+    this.logger.log(`[dry run] ${change.description} (${change.method} ${change.url})`);
+    return { dryRun: true, ...change };
+  }
+
+  /**
+   * Throw an AutodeskForbiddenError when a folder is protected, or holds a protected
+   * path; with descendants, protected folder IDs anywhere below it count as well
+   */
+  private async assertNotProtected(
+    projectId: string,
+    folderId: string,
+    action: string,
+    descendants: boolean,
+  ): Promise<void> {
+    const protectedFolders = this.options?.safety?.protectedFolders ?? [];
+    if (protectedFolders.length === 0) {
+      return;
+    }
+
+    const protectedPaths = protectedFolders
+      .filter((entry) => entry.startsWith('/'))
+      .map((entry) => entry.replace(/\/+$/, ''));
+    const protectedIds = new Set(protectedFolders.filter((entry) => !entry.startsWith('/')));
+
+    const refuse = (folder: string, detail?: string) =>
+      new AutodeskForbiddenError(
+        `Folder ${folder} is or contains a protected folder and cannot be ${action}`,
+        { status: 403, detail },
+      );
+
+    if (protectedIds.has(folderId)) {
+      throw refuse(folderId);
+    }
+
+    if (protectedPaths.length) {
+      const path = await this.getFolderPath(projectId, folderId);
+      const match = protectedPaths.find(
+        (entry) => entry === path || entry.startsWith(`${path}/`),
+      );
+      if (match) {
+        throw refuse(`"${path}"`, match === path ? undefined : `It contains "${match}"`);
+      }
+    }
+
+    if (descendants && protectedIds.size) {
+      const visit = (node: AutodeskFolderTreeNode) => {
+        for (const child of node.children) {
+          if (protectedIds.has(child.id)) {
+            throw refuse(folderId, `It contains protected folder ${child.id} ("${child.path}")`);
+          }
+          visit(child);
+        }
+      };
+      visit(await this.getFolderTree(projectId, folderId));
+    }
+  }
+
+  /**
+   * Throw an AutodeskConflictError when a folder already holds an entry with this name
+   */
+  private async assertNameAvailable(
+    projectId: string,
+    folderId: string,
+    name: string,
+    exceptId?: string,
+  ): Promise<void> {
+    const { folders, items } = await this.getFolderContents(projectId, folderId);
+
+    const existing = [...folders, ...items].find(
+      (entry) =>
+        entry.id !== exceptId &&
+        (entry.attributes?.displayName === name || entry.attributes?.name === name),
+    );
+
+    if (existing) {
+      throw new AutodeskConflictError(`"${name}" already exists in folder ${folderId}`, {
+        status: 409,
+        detail: `${existing.type === 'folders' ? 'Folder' : 'Item'} ${existing.id} has the same name`,
+      });
+    }
+  }
+
+  /**
+   * Search for items in a project
+   */
+  async searchItems(
+    projectId: string,
+    filter: string,
+    options: PaginationOptions = {},
+  ): Promise<AutodeskItem[]> {
+    return collect(this.iterateSearchItems(projectId, filter, options));
+  }
+
+  /**
+   * Iterate over search results page by page
+   */
+  async *iterateSearchItems(
+    projectId: string,
+    filter: string,
+    options: PaginationOptions = {},
+  ): AsyncGenerator<AutodeskItem> {
+    try {
+      yield* paginate<AutodeskItem>(
+        this.httpClient,
+        `/data/v1/projects/${projectId}/items`,
+        options,
+        {
+          params: { filter },
+          autodeskScopes: ['data:read', 'data:search'],
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to search items in project ${projectId}`,
+        describeError(error),
+      );
+      rethrowAs(error, new Error('Failed to search items'));
+    }
+  }
+
+  /**
+ * Create folder at project root (alternative method when parent folder is unknown)
+ */
+createRootFolder<O extends DryRunOptions = NoDryRun>(
+  projectId: string,
+  folderName: string,
+  safety?: O,
+): Promise<DryRunResult<AutodeskFolder, O>>;
+async createRootFolder(
+  projectId: string,
+  folderName: string,
+  safety?: DryRunOptions,
+): Promise<AutodeskFolder | AutodeskPlannedChange> {
   try {
-    this.logger.log(`Fetching top-level folders for project: ${projectId}`);
+    this.logger.log(`Creating folder "${folderName}" at project root`);
+    
+    // First, try to get the Plans folder (default root for most ACC projects)
+    try {
+      const topFolders = await this.getProjectTopFolders(projectId);
+      
+      // Look for "Plans" or "Project Files" folder
+      const rootFolder = topFolders.find(f => {
+        const name = f.attributes?.name || f.attributes?.displayName || '';
+        return name === 'Plans' || name === 'Project Files' || name === 'Plan';
+      });
+      
+      if (rootFolder) {
+        this.logger.log(`Found root folder: ${rootFolder.attributes?.name} (${rootFolder.id})`);
+        return await this.createFolder(projectId, rootFolder.id, folderName, safety);
+      }
+      
+      // If no standard root found, use the first top folder
+      if (topFolders.length > 0) {
+        const firstFolder = topFolders[0];
+        this.logger.log(`Using first top folder: ${firstFolder.attributes?.name} (${firstFolder.id})`);
+        return await this.createFolder(projectId, firstFolder.id, folderName, safety);
+      }
+    } catch (error) {
+      this.logger.warn('Failed to get top folders, trying direct creation');
+    }
+    
+    // Last resort: try to create at project level directly
+    // Note: This may fail depending on ACC/BIM360 permissions
+    const body = {
+      jsonapi: { version: '1.0' },
+      data: {
+        type: 'folders',
+        attributes: {
+          name: folderName,
+          extension: {
+            type: 'folders:autodesk.bim360:Folder',
+            version: '1.0',
+          },
+        },
+        relationships: {
+          parent: {
+            data: {
+              type: 'folders',
+              id: `${projectId}` // Use project ID as parent
+            },
+          },
+        },
+      },
+    };
+
+    if (this.isDryRun(safety)) {
+      return this.planChange({
+        operation: 'createRootFolder',
+        description: `Create folder "${folderName}" at project root`,
+        method: 'POST',
+        url: `/data/v1/projects/${projectId}/folders`,
+        body,
+      });
+    }
+
+    const response = await this.httpClient.post(
+      `/data/v1/projects/${projectId}/folders`,
+      body,
+    );
     
-    const response = await this.httpClient.get(
-      `/project/v1/hubs/${this.extractHubId(projectId)}/projects/${projectId}/topFolders`
+    this.logger.log(`Created folder at project root: ${folderName}`);
+    return response.data.data;
+  } catch (error) {
+    this.logger.error(
+      `Failed to create folder at root: ${folderName}`,
+      describeError(error)
     );
     
-    const topFolders = response.data.data;
+    rethrowAs(error, `Failed to create folder at root: ${folderName}`);
+  }
+}
+
+/**
+ * Get project top folders (root level folders)
+ */
+async getProjectTopFolders(
+  projectId: string,
+  options: PaginationOptions = {},
+): Promise<AutodeskFolder[]> {
+  try {
+    this.logger.log(`Fetching top-level folders for project: ${projectId}`);
+
+    const hubId = await this.hubResolver.resolveHubId(projectId);
+
+    const topFolders = await collect(
+      paginate<AutodeskFolder>(
+        this.httpClient,
+        `/project/v1/hubs/${hubId}/projects/${projectId}/topFolders`,
+        options,
+      ),
+    );
     
     this.logger.log(`Found ${topFolders.length} top-level folder(s)`);
     topFolders.forEach((folder: any) => {
@@ -647,22 +1933,136 @@ async getProjectTopFolders(projectId: string): Promise<AutodeskFolder[]> {
   } catch (error) {
     this.logger.error(
       `Failed to get top folders for project ${projectId}`,
-      error.response?.data || error.message
+      describeError(error)
     );
     throw error;
   }
 }
 
 /**
- * Extract hub ID from project ID
- * Project IDs typically look like: b.{projectId}
- * Hub IDs typically look like: b.{hubId}
+ * Get the full path of a folder, e.g. "/Project Files/Structural"
+ */
+async getFolderPath(projectId: string, folderId: string): Promise<string> {
+  const topFolderIds = new Set(
+    (await this.getProjectTopFolders(projectId)).map((folder) => folder.id),
+  );
+
+  // Walk up the parents until a top folder is reached
+  const names: string[] = [];
+  let folder = await this.getFolder(projectId, folderId);
+  for (;;) {
+    names.unshift(folder.attributes?.name || folder.attributes?.displayName);
+
+    const parentId = folder.relationships?.parent?.data?.id;
+    if (topFolderIds.has(folder.id) || !parentId) {
+      break;
+    }
+    folder = await this.getFolder(projectId, parentId);
+  }
+
+  return `/${names.join('/')}`;
+}
+
+/**
+ * Get the folder tree of a project (or below a folder) with full paths and counts
+ * Folders are listed in parallel; a folder that fails to list is reported on its node
+ */
+async getFolderTree(
+  projectId: string,
+  rootFolderId?: string,
+  options: FolderTreeOptions = {},
+): Promise<AutodeskFolderTreeNode> {
+  const maxDepth = options.maxDepth ?? Infinity;
+
+  // Without a root folder, a virtual node holds the project top folders
+  let root: AutodeskFolderTreeNode = {
+    id: projectId,
+    name: '',
+    path: '',
+    parentId: null,
+    depth: 0,
+    children: [],
+  };
+
+  if (rootFolderId) {
+    const folder = await this.getFolder(projectId, rootFolderId);
+    const name = folder.attributes?.name || folder.attributes?.displayName;
+    root = {
+      id: folder.id,
+      name,
+      path: await this.getRootFolderPath(projectId, rootFolderId, name),
+      parentId: folder.relationships?.parent?.data?.id ?? null,
+      depth: 0,
+      folder,
+      children: [],
+    };
+  }
+
+  await runTaskQueue([root], options.concurrency ?? AUTODESK_TREE_CONCURRENCY, async (node) => {
+    try {
+      const { folders, items } = node.folder
+        ? await this.getFolderContents(projectId, node.id)
+        : { folders: await this.getProjectTopFolders(projectId), items: [] };
+
+      node.folderCount = folders.length;
+      node.itemCount = items.length;
+      if (options.includeItems) {
+        node.items = items;
+      }
+
+      if (node.depth >= maxDepth) {
+        node.truncated = folders.length > 0;
+        return [];
+      }
+
+      for (const folder of folders) {
+        const name = folder.attributes?.name || folder.attributes?.displayName;
+        const path = `${node.path}/${name}`;
+        if (options.filter && !options.filter(folder, path)) {
+          continue;
+        }
+
+        node.children.push({
+          id: folder.id,
+          name,
+          path,
+          parentId: node.folder ? node.id : null,
+          depth: node.depth + 1,
+          folder,
+          children: [],
+        });
+      }
+
+      return node.children;
+    } catch (error) {
+      node.error = { message: error.message, status: error.status };
+      return [];
+    }
+  });
+
+  if (!root.folder) {
+    root.path = '/';
+  }
+  return root;
+}
+
+/**
+ * Full path of a tree's root folder, or just its name when the top folders cannot be looked up
+ * (e.g. the project's hub cannot be resolved), so listing below a known folder still works
  */
-private extractHubId(projectId: string): string {
-  // This is a placeholder - you may need to pass hub ID separately
-  // or retrieve it from your project metadata
-  // For now, we'll try to use the project endpoint without hub
-  return projectId.split('.')[0];
+private async getRootFolderPath(
+  projectId: string,
+  folderId: string,
+  name: string,
+): Promise<string> {
+  try {
+    return await this.getFolderPath(projectId, folderId);
+  } catch (error) {
+    this.logger.warn(
+      `Could not resolve the path of folder ${folderId}, using its name: ${error.message}`,
+    );
+    return `/${name}`;
+  }
 }
 
 /**
@@ -673,55 +2073,25 @@ async getAllProjectFolders(
   rootFolderId?: string
 ): Promise<AutodeskFolder[]> {
   try {
+    const tree = await this.getFolderTree(projectId, rootFolderId);
+
     const allFolders: AutodeskFolder[] = [];
-    
-    // If no root folder ID provided, get the project top folders first
-    if (!rootFolderId) {
-      try {
-        const topFolders = await this.getProjectTopFolders(projectId);
-        allFolders.push(...topFolders);
-        
-        // Recursively get subfolders for each top folder
-        for (const folder of topFolders) {
-          try {
-            const subFolders = await this.getAllProjectFolders(projectId, folder.id);
-            allFolders.push(...subFolders);
-          } catch (error) {
-            this.logger.warn(`Failed to get subfolders for ${folder.id}:`, error.message);
-          }
-        }
-        
-        return allFolders;
-      } catch (error) {
-        this.logger.warn('Failed to get top folders, trying alternative method');
+    const visit = (node: AutodeskFolderTreeNode) => {
+      if (node.error) {
+        this.logger.warn(`Failed to get subfolders for ${node.path}: ${node.error.message}`);
       }
-    }
-    
-    // Alternative: Use folder contents endpoint
-    const folderId = rootFolderId || projectId;
-    
-    this.logger.log(`Fetching folders from: ${folderId}`);
-    
-    const { folders, items } = await this.getFolderContents(projectId, folderId);
-    
-    // Add current level folders
-    allFolders.push(...folders);
-    
-    // Recursively get subfolders
-    for (const folder of folders) {
-      try {
-        const subFolders = await this.getAllProjectFolders(projectId, folder.id);
-        allFolders.push(...subFolders);
-      } catch (error) {
-        this.logger.warn(`Failed to get subfolders for ${folder.id}:`, error.message);
+      for (const child of node.children) {
+        allFolders.push(child.folder as AutodeskFolder);
+        visit(child);
       }
-    }
-    
+    };
+    visit(tree);
+
     return allFolders;
   } catch (error) {
     this.logger.error(
       `Failed to get all folders for project ${projectId}`,
-      error.response?.data || error.message
+      describeError(error)
     );
     throw error;
   }
@@ -763,11 +2133,18 @@ async findFolderByName(
  * Get or create folder by name
  * This will search for existing folder first, create if not found
  */
+getOrCreateFolder<O extends DryRunOptions = NoDryRun>(
+  projectId: string,
+  parentFolderId: string,
+  folderName: string,
+  safety?: O,
+): Promise<DryRunResult<AutodeskFolder, O>>;
 async getOrCreateFolder(
   projectId: string,
   parentFolderId: string,
-  folderName: string
-): Promise<AutodeskFolder> {
+  folderName: string,
+  safety?: DryRunOptions,
+): Promise<AutodeskFolder | AutodeskPlannedChange> {
   try {
     // First, try to find existing folder in parent
     const { folders } = await this.getFolderContents(projectId, parentFolderId);
@@ -785,7 +2162,7 @@ async getOrCreateFolder(
     
     // If not found, create new folder
     this.logger.log(`Creating new folder: "${folderName}"`);
-    return await this.createFolder(projectId, parentFolderId, folderName);
+    return await this.createFolder(projectId, parentFolderId, folderName, safety);
   } catch (error) {
     this.logger.error(`Failed to get or create folder "${folderName}":`, error.message);
     throw error;
@@ -799,16 +2176,19 @@ async listAllFoldersWithIds(projectId: string): Promise<Array<{ name: string; id
   try {
     this.logger.log('=== LISTING ALL FOLDERS ===');
     
-    const allFolders = await this.getAllProjectFolders(projectId);
-    
-    const folderList = allFolders.map(folder => ({
-      name: folder.attributes?.name || folder.attributes?.displayName || 'Unknown',
-      id: folder.id,
-      path: folder.attributes?.name || folder.attributes?.displayName || 'Unknown'
-    }));
+    const tree = await this.getFolderTree(projectId);
+
+    const folderList: Array<{ name: string; id: string; path: string }> = [];
+    const visit = (node: AutodeskFolderTreeNode) => {
+      for (const child of node.children) {
+        folderList.push({ name: child.name || 'Unknown', id: child.id, path: child.path });
+        visit(child);
+      }
+    };
+    visit(tree);
     
     folderList.forEach((folder, index) => {
-      this.logger.log(`${index + 1}. "${folder.name}" -> ${folder.id}`);
+      this.logger.log(`${index + 1}. "${folder.path}" -> ${folder.id}`);
     });
     
     this.logger.log(`Total folders found: ${folderList.length}`);
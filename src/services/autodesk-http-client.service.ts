@@ -0,0 +1,168 @@
+// src/services/autodesk-http-client.service.ts
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { AutodeskAuthService } from './autodesk-auth.service';
+import {
+  AUTODESK_ACC_OPTIONS,
+  AUTODESK_BASE_URL,
+  AUTODESK_HTTP_RETRIES,
+  AUTODESK_HTTP_RETRY_BASE_DELAY,
+  AUTODESK_HTTP_RETRY_MAX_DELAY,
+  AUTODESK_HTTP_TIMEOUT,
+} from '../constants';
+import { AutodeskAccModuleOptions } from '../interfaces/module-options.interface';
+import { createAutodeskApiError } from '../errors/autodesk-api.error';
+
+// Methods that are safe to repeat after a 5xx or a dropped connection
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+// APIs that accept a region header, and the header's name
+const REGIONAL_PATHS: Record<string, string> = {
+  '/data/': 'x-ads-region',
+  '/oss/': 'x-ads-region',
+  '/modelderivative/': 'region',
+  '/webhooks/': 'x-ads-region',
+};
+
+/**
+ * Shared HTTP client for Autodesk APIs
+ * Attaches the current token, retries 429s and transient failures with backoff,
+ * and retries once with a fresh token after a 401
+ * Failed requests reject with an AutodeskApiError
+ */
+@Injectable()
+export class AutodeskHttpClient {
+  private readonly logger = new Logger(AutodeskHttpClient.name);
+  private readonly instance: AxiosInstance;
+
+  constructor(
+    private readonly authService: AutodeskAuthService,
+    @Inject(AUTODESK_ACC_OPTIONS)
+    private readonly options: AutodeskAccModuleOptions,
+  ) {
+    this.instance = axios.create({
+      baseURL: options.baseUrl || AUTODESK_BASE_URL,
+      timeout: options.http?.timeout ?? AUTODESK_HTTP_TIMEOUT,
+    });
+  }
+
+  /**
+   * Send a request with authentication and retries
+   */
+  async request<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const maxRetries = this.options.http?.retries ?? AUTODESK_HTTP_RETRIES;
+    let retries = 0;
+    let tokenRenewed = false;
+
+    for (;;) {
+      const token = config.autodeskAppToken
+        ? await this.authService.authenticate(config.autodeskScopes)
+        : await this.authService.getAccessToken(config.autodeskScopes);
+
+      try {
+        return await this.instance.request<T>({
+          ...config,
+          headers: {
+            ...this.getRegionHeaders(config),
+            ...config.headers,
+            Authorization: `Bearer ${token}`,
+          },
+        });
+      } catch (error) {
+        const status: number | undefined = error.response?.status;
+        const target = `${(config.method || 'GET').toUpperCase()} ${config.url}`;
+
+        if (status === 401 && !tokenRenewed) {
+          tokenRenewed = true;
+          this.logger.warn(`${target} returned 401, retrying with a new token`);
+          await this.authService.invalidateAccessToken(token);
+          continue;
+        }
+
+        if (retries >= maxRetries || !this.isRetryable(error, config)) {
+          const appCredentials =
+            !!config.autodeskAppToken || !this.authService.getCurrentUserId();
+          throw createAutodeskApiError(error, target, appCredentials);
+        }
+
+        const delay = this.getRetryDelay(error, retries);
+        retries++;
+        this.logger.warn(
+          `${target} failed (${status ?? error.code}), retry ${retries}/${maxRetries} in ${delay}ms`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  get<T = any>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'GET', url });
+  }
+
+  delete<T = any>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'DELETE', url });
+  }
+
+  post<T = any>(url: string, data?: any, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'POST', url, data });
+  }
+
+  put<T = any>(url: string, data?: any, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'PUT', url, data });
+  }
+
+  patch<T = any>(url: string, data?: any, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'PATCH', url, data });
+  }
+
+  /**
+   * Data Management, OSS, Model Derivative and Webhooks requests carry the configured region
+   */
+  private getRegionHeaders(config: AxiosRequestConfig): Record<string, string> {
+    const region = this.options.region;
+    if (!region || !config.url) {
+      return {};
+    }
+
+    const path = config.url.replace(this.instance.defaults.baseURL || '', '');
+    const prefix = Object.keys(REGIONAL_PATHS).find((candidate) => path.startsWith(candidate));
+    return prefix ? { [REGIONAL_PATHS[prefix]]: region } : {};
+  }
+
+  /**
+   * 429s are always retried; 5xx and network errors only for idempotent methods
+   */
+  private isRetryable(error: any, config: AxiosRequestConfig): boolean {
+    const status: number | undefined = error.response?.status;
+    if (status === 429) {
+      return true;
+    }
+
+    const method = (config.method || 'GET').toUpperCase();
+    if (!IDEMPOTENT_METHODS.includes(method)) {
+      return false;
+    }
+
+    return status === undefined ? !!error.request : RETRYABLE_STATUSES.includes(status);
+  }
+
+  /**
+   * Honor Retry-After, otherwise back off exponentially with jitter
+   */
+  private getRetryDelay(error: any, retries: number): number {
+    const maxDelay = this.options.http?.retryMaxDelay ?? AUTODESK_HTTP_RETRY_MAX_DELAY;
+    const retryAfter = error.response?.headers?.['retry-after'];
+
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+      if (!Number.isNaN(delay)) {
+        return Math.min(Math.max(delay, 0), maxDelay);
+      }
+    }
+
+    const baseDelay = this.options.http?.retryBaseDelay ?? AUTODESK_HTTP_RETRY_BASE_DELAY;
+    const backoff = Math.min(baseDelay * 2 ** retries, maxDelay);
+    return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+  }
+}
@@ -0,0 +1,545 @@
+// src/services/autodesk-model-derivative.service.ts
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import axios, { AxiosResponse } from 'axios';
+import { Readable } from 'stream';
+import { AutodeskHttpClient } from './autodesk-http-client.service';
+import { AutodeskDataManagementService } from './autodesk-data-management.service';
+import {
+  AUTODESK_PROPERTIES_PAGE_SIZE,
+  AUTODESK_TRANSLATION_POLL_INTERVAL,
+  AUTODESK_TRANSLATION_TIMEOUT,
+} from '../constants';
+import {
+  AutodeskDerivativeFile,
+  AutodeskModelView,
+  AutodeskPlannedChange,
+  DryRunOptions,
+  DryRunResult,
+  NoDryRun,
+  AutodeskViewable,
+  DerivativeDownloadResult,
+  DerivativeManifest,
+  ManifestNode,
+  ManifestStatus,
+  ModelObjectNode,
+  ModelObjectProperties,
+  ModelObjectTreeOptions,
+  ModelPropertiesOptions,
+  ModelPropertyRow,
+  ModelPropertyTableOptions,
+  TranslateOptions,
+  TranslationJob,
+  TranslationProgress,
+  UploadAndTranslateOptions,
+  UploadAndTranslateResult,
+  WaitForTranslationOptions,
+} from '../interfaces';
+import {
+  AutodeskApiError,
+  AutodeskNotFoundError,
+  AutodeskTranslationError,
+  createAutodeskApiError,
+  describeError,
+  rethrowAs,
+} from '../errors/autodesk-api.error';
+import { collect } from '../utils/pagination.util';
+import { isPlannedChange } from '../utils/safety.util';
+import { propertyTableToCsv, toPropertyRow } from '../utils/model-properties.util';
+
+const DESIGN_DATA_PATH = '/modelderivative/v2/designdata';
+
+/**
+ * Translates uploaded models for viewing and conversion through the Model Derivative API
+ * Sources are addressed by URN: the URL-safe base64 of a storage object ID
+ */
+@Injectable()
+export class AutodeskModelDerivativeService {
+  private readonly logger = new Logger(AutodeskModelDerivativeService.name);
+
+  constructor(
+    private readonly httpClient: AutodeskHttpClient,
+    private readonly dataManagement: AutodeskDataManagementService,
+  ) {}
+
+  /**
+   * Encode an object ID (e.g. a version's storage ID) as a Model Derivative URN
+   */
+  toUrn(objectId: string): string {
+    return Buffer.from(objectId).toString('base64url');
+  }
+
+  /**
+   * URN of a version's storage object
+   */
+  async getVersionUrn(projectId: string, versionId: string): Promise<string> {
+    const version = await this.dataManagement.getVersion(projectId, versionId);
+    const storageId = version.relationships?.storage?.data?.id;
+    if (!storageId) {
+      throw new BadRequestException(`Version ${versionId} has no storage object to translate`);
+    }
+    return this.toUrn(storageId);
+  }
+
+  /**
+   * Start a translation job (SVF2 for viewing by default)
+   */
+  async translate(urn: string, options: TranslateOptions = {}): Promise<TranslationJob> {
+    const formats = options.formats ?? [{ type: 'svf2', views: ['2d', '3d'] }];
+
+    try {
+      const response = await this.httpClient.post(
+        `${DESIGN_DATA_PATH}/job`,
+        {
+          input: {
+            urn,
+            ...(options.rootFilename
+              ? { compressedUrn: true, rootFilename: options.rootFilename }
+              : {}),
+          },
+          output: {
+            formats: formats.map((format) => ({
+              type: format.type,
+              ...(format.type === 'svf' || format.type === 'svf2'
+                ? { views: format.views ?? ['2d', '3d'] }
+                : {}),
+              ...(format.advanced ? { advanced: format.advanced } : {}),
+            })),
+          },
+        },
+        {
+          headers: options.force ? { 'x-ads-force': 'true' } : {},
+        },
+      );
+
+      this.logger.log(
+        `Started translation of ${urn} to ${formats.map((format) => format.type).join(', ')}`,
+      );
+      return response.data;
+    } catch (error) {
+      this.logger.error(
+        `Failed to start translation of ${urn}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to start translation: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the manifest: job status and the tree of derivatives
+   */
+  async getManifest(urn: string): Promise<DerivativeManifest> {
+    try {
+      const response = await this.httpClient.get(`${DESIGN_DATA_PATH}/${urn}/manifest`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch manifest of ${urn}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to fetch manifest: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the translation status as numbers rather than "45% complete" strings
+   */
+  async getTranslationProgress(urn: string): Promise<TranslationProgress> {
+    return this.toProgress(await this.getManifest(urn));
+  }
+
+  /**
+   * Poll the manifest until the translation succeeds
+   * Throws an AutodeskTranslationError when it fails or takes longer than the timeout
+   */
+  async waitForTranslation(
+    urn: string,
+    options: WaitForTranslationOptions = {},
+  ): Promise<DerivativeManifest> {
+    const interval = options.interval ?? AUTODESK_TRANSLATION_POLL_INTERVAL;
+    const deadline = Date.now() + (options.timeout ?? AUTODESK_TRANSLATION_TIMEOUT);
+
+    for (;;) {
+      const manifest = await this.getManifest(urn);
+      const progress = this.toProgress(manifest);
+      options.onProgress?.(progress);
+
+      if (manifest.status === 'success') {
+        this.logger.log(`Translation of ${urn} finished`);
+        return manifest;
+      }
+
+      if (manifest.status === 'failed' || manifest.status === 'timeout') {
+        const errors = progress.messages.filter((message) => message.type === 'error');
+        throw new AutodeskTranslationError(`Translation of ${urn} ${manifest.status}`, {
+          status: 422,
+          code: errors[0]?.code,
+          detail: errors.map((message) => [message.message].flat().join(' ')).join('; '),
+          body: manifest,
+        });
+      }
+
+      if (Date.now() + interval > deadline) {
+        throw new AutodeskTranslationError(
+          `Translation of ${urn} did not finish in time (${progress.percent}% complete)`,
+          { status: 504, body: manifest },
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  }
+
+  /**
+   * Get a thumbnail of the translated model as PNG
+   */
+  async getThumbnail(urn: string, width: 100 | 200 | 400 = 200): Promise<Buffer> {
+    try {
+      const response = await this.httpClient.get<ArrayBuffer>(
+        `${DESIGN_DATA_PATH}/${urn}/thumbnail`,
+        {
+          params: { width },
+          responseType: 'arraybuffer',
+        },
+      );
+      return Buffer.from(response.data);
+    } catch (error) {
+      this.logger.error(`Failed to fetch thumbnail of ${urn}`, error.message);
+      rethrowAs(error, `Failed to fetch thumbnail: ${error.message}`);
+    }
+  }
+
+  /**
+   * List the 2D sheets and 3D views that can be opened in the viewer
+   */
+  async getViewables(urn: string): Promise<AutodeskViewable[]> {
+    const manifest = await this.getManifest(urn);
+    const viewables: AutodeskViewable[] = [];
+
+    for (const derivative of manifest.derivatives ?? []) {
+      this.walk(derivative.children, (node) => {
+        if (node.type === 'geometry' && (node.role === '2d' || node.role === '3d')) {
+          viewables.push({
+            guid: node.guid,
+            name: node.name,
+            role: node.role,
+            outputType: derivative.outputType,
+          });
+        }
+      });
+    }
+
+    return viewables;
+  }
+
+  /**
+   * List the downloadable derivative files, e.g. the OBJ or IFC output of a job
+   */
+  async getDerivativeFiles(urn: string, outputType?: string): Promise<AutodeskDerivativeFile[]> {
+    const manifest = await this.getManifest(urn);
+    const files: AutodeskDerivativeFile[] = [];
+
+    for (const derivative of manifest.derivatives ?? []) {
+      if (outputType && derivative.outputType !== outputType) {
+        continue;
+      }
+
+      this.walk(derivative.children, (node) => {
+        if (node.type === 'resource' && node.urn) {
+          files.push({
+            urn: node.urn,
+            name: node.name,
+            role: node.role,
+            mime: node.mime,
+            outputType: derivative.outputType,
+          });
+        }
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * Download a derivative file through signed cookies
+   */
+  async downloadDerivative(urn: string, derivativeUrn: string): Promise<DerivativeDownloadResult> {
+    try {
+      const response = await this.httpClient.get(
+        `${DESIGN_DATA_PATH}/${urn}/manifest/${encodeURIComponent(derivativeUrn)}/signedcookies`,
+      );
+
+      // The CloudFront cookies are returned as Set-Cookie headers
+      const setCookie: string[] = response.headers['set-cookie'] ?? [];
+      const cookie = setCookie.map((value) => value.split(';')[0]).join('; ');
+
+      const download = await axios
+        .get<Readable>(response.data.url, {
+          responseType: 'stream',
+          headers: { Cookie: cookie },
+        })
+        .catch((error) => {
+          throw createAutodeskApiError(error, 'GET signed derivative URL');
+        });
+
+      return {
+        stream: download.data,
+        size: response.data.size ?? Number(download.headers['content-length'] ?? 0),
+        contentType: response.data['content-type'] ?? download.headers['content-type'],
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to download derivative ${derivativeUrn}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to download derivative: ${error.message}`);
+    }
+  }
+
+  /**
+   * List the model views (2D sheets and 3D views) that carry metadata
+   */
+  async getModelViews(urn: string): Promise<AutodeskModelView[]> {
+    const body = await this.requestMetadata(urn, 'model views', {}, () =>
+      this.httpClient.get(`${DESIGN_DATA_PATH}/${urn}/metadata`),
+    );
+    return body.data?.metadata ?? [];
+  }
+
+  /**
+   * Get the object hierarchy of a model view
+   */
+  async getObjectTree(
+    urn: string,
+    viewGuid: string,
+    options: ModelObjectTreeOptions = {},
+  ): Promise<ModelObjectNode[]> {
+    const body = await this.requestMetadata(urn, 'object tree', options, (forceGet) =>
+      this.httpClient.get(`${DESIGN_DATA_PATH}/${urn}/metadata/${viewGuid}`, {
+        params: { forceget: forceGet || undefined },
+      }),
+    );
+    return body.data?.objects ?? [];
+  }
+
+  /**
+   * Iterate over the properties of a model view's objects page by page
+   */
+  async *iterateProperties(
+    urn: string,
+    viewGuid: string,
+    options: ModelPropertiesOptions = {},
+  ): AsyncGenerator<ModelObjectProperties> {
+    const limit = options.pageSize ?? AUTODESK_PROPERTIES_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > AUTODESK_PROPERTIES_PAGE_SIZE) {
+      throw new BadRequestException(
+        `pageSize must be a whole number from 1 to ${AUTODESK_PROPERTIES_PAGE_SIZE}`,
+      );
+    }
+    // No objects were asked for, and an empty $in list is not a valid query
+    if (options.objectIds?.length === 0) {
+      return;
+    }
+
+    for (let offset = 0; ; offset += limit) {
+      const body = await this.requestMetadata(urn, 'properties', options, () =>
+        this.httpClient.post(`${DESIGN_DATA_PATH}/${urn}/metadata/${viewGuid}/properties:query`, {
+          ...(options.objectIds ? { query: { $in: ['objectid', ...options.objectIds] } } : {}),
+          ...(options.fields ? { fields: options.fields } : {}),
+          pagination: { offset, limit },
+        }),
+      );
+
+      const collection: ModelObjectProperties[] = body.data?.collection ?? [];
+      yield* collection;
+
+      const total: number | undefined = body.pagination?.totalResults;
+      if (collection.length < limit || (total !== undefined && offset + limit >= total)) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Get the properties of every object of a model view
+   */
+  async getProperties(
+    urn: string,
+    viewGuid: string,
+    options: ModelPropertiesOptions = {},
+  ): Promise<ModelObjectProperties[]> {
+    return collect(this.iterateProperties(urn, viewGuid, options));
+  }
+
+  /**
+   * Get a flattened property table (dbId, externalId, name, category, properties)
+   * of a model view, optionally only for some categories
+   */
+  async getPropertyTable(
+    urn: string,
+    options: ModelPropertyTableOptions = {},
+  ): Promise<ModelPropertyRow[]> {
+    const viewGuid = options.viewGuid ?? (await this.getDefaultViewGuid(urn));
+    const rows = (await this.getProperties(urn, viewGuid, options)).map(toPropertyRow);
+
+    if (!options.categories?.length) {
+      return rows;
+    }
+
+    // Revit categories read "Revit Walls"; "Walls" matches them too
+    const categories = new Set(options.categories.map((category) => category.toLowerCase()));
+    return rows.filter((row) => {
+      const category = row.category?.toLowerCase();
+      return (
+        !!category &&
+        (categories.has(category) || categories.has(category.replace(/^revit /, '')))
+      );
+    });
+  }
+
+  /**
+   * Get the property table of a Data Management version
+   */
+  async getVersionPropertyTable(
+    projectId: string,
+    versionId: string,
+    options: ModelPropertyTableOptions = {},
+  ): Promise<ModelPropertyRow[]> {
+    return this.getPropertyTable(await this.getVersionUrn(projectId, versionId), options);
+  }
+
+  /**
+   * Serialize a property table as CSV or JSON
+   */
+  exportPropertyTable(rows: ModelPropertyRow[], format: 'csv' | 'json' = 'csv'): string {
+    return format === 'json' ? JSON.stringify(rows, null, 2) : propertyTableToCsv(rows);
+  }
+
+  /**
+   * Upload a file, then translate its first version
+   */
+  uploadAndTranslate<O extends DryRunOptions = NoDryRun>(
+    options: UploadAndTranslateOptions,
+    safety?: O,
+  ): Promise<DryRunResult<UploadAndTranslateResult, O>>;
+  async uploadAndTranslate(
+    options: UploadAndTranslateOptions,
+    safety?: DryRunOptions,
+  ): Promise<UploadAndTranslateResult | AutodeskPlannedChange> {
+    const { translate, wait, ...upload } = options;
+
+    const item = await this.dataManagement.uploadFile(upload, safety);
+    if (isPlannedChange(item)) {
+      return item;
+    }
+
+    const version = await this.dataManagement.getTipVersion(upload.projectId, item.id);
+    const urn = await this.getVersionUrn(upload.projectId, version.id);
+    const job = await this.translate(urn, translate);
+
+    if (!wait) {
+      return { item, version, urn, job };
+    }
+
+    const manifest = await this.waitForTranslation(urn, wait === true ? {} : wait);
+    return { item, version, urn, job, manifest };
+  }
+
+  /**
+   * The master 3D view, else the first 3D view, else the first view
+   */
+  private async getDefaultViewGuid(urn: string): Promise<string> {
+    const views = await this.getModelViews(urn);
+    const view =
+      views.find((candidate) => candidate.role === '3d' && candidate.isMasterView) ??
+      views.find((candidate) => candidate.role === '3d') ??
+      views[0];
+
+    if (!view) {
+      throw new AutodeskNotFoundError(`${urn} has no model views`, {
+        status: 404,
+        detail: 'Translate the model to SVF or SVF2 first',
+      });
+    }
+    return view.guid;
+  }
+
+  /**
+   * Metadata is extracted on first request: keep asking while the API answers 202,
+   * and ask again with forceget when the data is over the size limit (413)
+   */
+  private async requestMetadata(
+    urn: string,
+    what: string,
+    options: ModelObjectTreeOptions,
+    send: (forceGet: boolean) => Promise<AxiosResponse>,
+  ): Promise<any> {
+    const deadline = Date.now() + (options.timeout ?? AUTODESK_TRANSLATION_TIMEOUT);
+    const interval = AUTODESK_TRANSLATION_POLL_INTERVAL;
+    let forceGet = !!options.forceGet;
+
+    try {
+      for (;;) {
+        let response: AxiosResponse;
+        try {
+          response = await send(forceGet);
+        } catch (error) {
+          if (error instanceof AutodeskApiError && error.status === 413 && !forceGet) {
+            this.logger.warn(`Metadata (${what}) of ${urn} is over the size limit, using forceget`);
+            forceGet = true;
+            continue;
+          }
+          throw error;
+        }
+
+        if (response.status !== 202) {
+          return response.data;
+        }
+        if (Date.now() + interval > deadline) {
+          throw new AutodeskTranslationError(`Metadata (${what}) of ${urn} was not ready in time`, {
+            status: 504,
+          });
+        }
+        await new Promise((resolve) => setTimeout(resolve, interval));
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch the ${what} of ${urn}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to fetch the ${what}: ${error.message}`);
+    }
+  }
+
+  private toProgress(manifest: DerivativeManifest): TranslationProgress {
+    const derivatives = (manifest.derivatives ?? []).map((derivative) => ({
+      outputType: derivative.outputType,
+      status: derivative.status,
+      percent: this.parsePercent(derivative.progress, derivative.status),
+    }));
+
+    return {
+      urn: manifest.urn,
+      status: manifest.status,
+      percent: this.parsePercent(manifest.progress, manifest.status),
+      derivatives,
+      messages: (manifest.derivatives ?? []).flatMap((derivative) =>
+        (derivative.messages ?? []).filter((message) => message.type !== 'info'),
+      ),
+    };
+  }
+
+  private parsePercent(progress: string | undefined, status: ManifestStatus): number {
+    if (status === 'success' || progress === 'complete') {
+      return 100;
+    }
+    const percent = parseInt(progress ?? '', 10);
+    return Number.isNaN(percent) ? 0 : percent;
+  }
+
+  private walk(nodes: ManifestNode[] | undefined, visit: (node: ManifestNode) => void): void {
+    for (const node of nodes ?? []) {
+      visit(node);
+      this.walk(node.children, visit);
+    }
+  }
+}
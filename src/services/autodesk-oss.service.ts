@@ -0,0 +1,570 @@
+// src/services/autodesk-oss.service.ts
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { AutodeskHttpClient } from './autodesk-http-client.service';
+import {
+  AUTODESK_MAX_UPLOAD_URLS,
+  AUTODESK_MIN_UPLOAD_PART_SIZE,
+  AUTODESK_UPLOAD_CONCURRENCY,
+  AUTODESK_UPLOAD_PART_SIZE,
+} from '../constants';
+import {
+  CreateBucketOptions,
+  CreateSignedUrlOptions,
+  OssBucket,
+  OssBucketListOptions,
+  OssDownloadResult,
+  OssDownloadUrl,
+  OssObject,
+  OssObjectListOptions,
+  OssSignedUrl,
+  OssUploadOptions,
+} from '../interfaces';
+import { createAutodeskApiError, describeError, rethrowAs } from '../errors/autodesk-api.error';
+import { collect, paginateItems } from '../utils/pagination.util';
+import { getUploadSize, readParts } from '../utils/upload-source.util';
+
+const BUCKETS_PATH = '/oss/v2/buckets';
+const BUCKET_KEY_PATTERN = /^[-_.a-z0-9]{3,128}$/;
+// Buckets belong to the app, so bucket requests always use its 2-legged token; object
+// requests use the current token, as Data Management storage needs the user's
+const OBJECT_READ_SCOPES = ['data:read'];
+const OBJECT_WRITE_SCOPES = ['data:read', 'data:write'];
+
+/**
+ * Buckets and objects in Object Storage Service (OSS), the storage behind ACC files
+ * and the app's own buckets for intermediate files
+ */
+@Injectable()
+export class AutodeskOssService {
+  private readonly logger = new Logger(AutodeskOssService.name);
+
+  constructor(private readonly httpClient: AutodeskHttpClient) {}
+
+  /**
+   * Create a bucket; bucket keys are unique across all Autodesk apps
+   */
+  async createBucket(bucketKey: string, options: CreateBucketOptions = {}): Promise<OssBucket> {
+    if (!BUCKET_KEY_PATTERN.test(bucketKey)) {
+      throw new BadRequestException(
+        `Invalid bucket key ${bucketKey}: use 3-128 characters of a-z, 0-9, "-", "_" and "."`,
+      );
+    }
+
+    try {
+      const response = await this.httpClient.post(
+        BUCKETS_PATH,
+        { bucketKey, policyKey: options.policyKey ?? 'transient' },
+        {
+          headers: options.region ? { 'x-ads-region': options.region } : undefined,
+          autodeskScopes: ['bucket:create'],
+          autodeskAppToken: true,
+        },
+      );
+
+      this.logger.log(`Created bucket ${bucketKey} (${response.data.policyKey})`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(
+        `Failed to create bucket ${bucketKey}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to create bucket: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a bucket's details, including its retention policy
+   */
+  async getBucket(bucketKey: string): Promise<OssBucket> {
+    try {
+      const response = await this.httpClient.get(`${BUCKETS_PATH}/${bucketKey}/details`, {
+        autodeskScopes: ['bucket:read'],
+        autodeskAppToken: true,
+      });
+      return response.data;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch bucket ${bucketKey}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to fetch bucket: ${error.message}`);
+    }
+  }
+
+  /**
+   * List the app's buckets
+   */
+  async listBuckets(options: OssBucketListOptions = {}): Promise<OssBucket[]> {
+    return collect(this.iterateBuckets(options));
+  }
+
+  /**
+   * Iterate over the app's buckets page by page
+   */
+  async *iterateBuckets(options: OssBucketListOptions = {}): AsyncGenerator<OssBucket> {
+    try {
+      yield* paginateItems<OssBucket>(this.httpClient, BUCKETS_PATH, {
+        params: { limit: options.limit, startAt: options.startAt, region: options.region },
+        autodeskScopes: ['bucket:read'],
+        autodeskAppToken: true,
+      });
+    } catch (error) {
+      this.logger.error('Failed to fetch buckets', describeError(error));
+      rethrowAs(error, `Failed to fetch buckets: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a bucket and every object in it
+   */
+  async deleteBucket(bucketKey: string): Promise<void> {
+    try {
+      await this.httpClient.delete(`${BUCKETS_PATH}/${bucketKey}`, {
+        autodeskScopes: ['bucket:delete'],
+        autodeskAppToken: true,
+      });
+      this.logger.log(`Deleted bucket ${bucketKey}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete bucket ${bucketKey}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to delete bucket: ${error.message}`);
+    }
+  }
+
+  /**
+   * Upload an object through signed S3 URLs, in parts when it is larger than partSize
+   */
+  async uploadObject(
+    bucketKey: string,
+    objectKey: string,
+    source: OssUploadOptions,
+  ): Promise<OssObject> {
+    try {
+      const uploadKey = await this.uploadParts(bucketKey, objectKey, source);
+      return await this.completeUpload(bucketKey, objectKey, uploadKey, source.contentType);
+    } catch (error) {
+      this.logger.error(
+        `Failed to upload ${bucketKey}/${objectKey}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to upload object: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a signed S3 URL to download an object directly
+   */
+  async getDownloadUrl(
+    bucketKey: string,
+    objectKey: string,
+    minutesExpiration = 30,
+  ): Promise<OssDownloadUrl> {
+    try {
+      const response = await this.httpClient.get(
+        `${this.getObjectPath(bucketKey, objectKey)}/signeds3download`,
+        {
+          params: {
+            minutesExpiration,
+          },
+          autodeskScopes: OBJECT_READ_SCOPES,
+        },
+      );
+
+      return {
+        url: response.data.url,
+        expiresAt: Date.now() + minutesExpiration * 60000,
+        size: response.data.size,
+        sha1: response.data.sha1,
+        contentType: response.data.params?.['content-type'],
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to get a download URL for ${bucketKey}/${objectKey}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to get download URL: ${error.message}`);
+    }
+  }
+
+  /**
+   * Download an object as a stream
+   */
+  async downloadObject(bucketKey: string, objectKey: string): Promise<OssDownloadResult> {
+    try {
+      const info = await this.getDownloadUrl(bucketKey, objectKey);
+
+      // The signed URL carries its own authorization
+      const response = await axios
+        .get(info.url, {
+          responseType: 'stream',
+        })
+        .catch((error) => {
+          throw createAutodeskApiError(error, 'GET signed download URL');
+        });
+
+      return {
+        stream: response.data,
+        size: Number(info.size ?? response.headers['content-length'] ?? 0),
+        contentType:
+          info.contentType || response.headers['content-type'] || 'application/octet-stream',
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to download ${bucketKey}/${objectKey}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to download object: ${error.message}`);
+    }
+  }
+
+  /**
+   * Download an object to a local file
+   */
+  async downloadObjectToFile(
+    bucketKey: string,
+    objectKey: string,
+    filePath: string,
+  ): Promise<Omit<OssDownloadResult, 'stream'> & { filePath: string }> {
+    const { stream, ...download } = await this.downloadObject(bucketKey, objectKey);
+
+    try {
+      await pipeline(stream, createWriteStream(filePath));
+      this.logger.log(`Downloaded ${bucketKey}/${objectKey} to ${filePath}`);
+      return { ...download, filePath };
+    } catch (error) {
+      this.logger.error(`Failed to write ${objectKey} to ${filePath}`, error.message);
+      throw new BadRequestException(`Failed to download object to file: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get an object's details
+   */
+  async getObject(bucketKey: string, objectKey: string): Promise<OssObject> {
+    try {
+      const response = await this.httpClient.get(
+        `${this.getObjectPath(bucketKey, objectKey)}/details`,
+        { autodeskScopes: OBJECT_READ_SCOPES },
+      );
+      return response.data;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch ${bucketKey}/${objectKey}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to fetch object: ${error.message}`);
+    }
+  }
+
+  /**
+   * List the objects of a bucket
+   */
+  async listObjects(bucketKey: string, options: OssObjectListOptions = {}): Promise<OssObject[]> {
+    return collect(this.iterateObjects(bucketKey, options));
+  }
+
+  /**
+   * Iterate over the objects of a bucket page by page
+   */
+  async *iterateObjects(
+    bucketKey: string,
+    options: OssObjectListOptions = {},
+  ): AsyncGenerator<OssObject> {
+    try {
+      yield* paginateItems<OssObject>(this.httpClient, `${BUCKETS_PATH}/${bucketKey}/objects`, {
+        params: {
+          limit: options.limit,
+          startAt: options.startAt,
+          beginsWith: options.beginsWith,
+        },
+        autodeskScopes: OBJECT_READ_SCOPES,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch objects of ${bucketKey}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to fetch objects: ${error.message}`);
+    }
+  }
+
+  /**
+   * Copy an object to a new key in the same bucket
+   */
+  async copyObject(bucketKey: string, objectKey: string, targetKey: string): Promise<OssObject> {
+    try {
+      const response = await this.httpClient.put(
+        `${this.getObjectPath(bucketKey, objectKey)}/copyto/${encodeURIComponent(targetKey)}`,
+        undefined,
+        { autodeskScopes: OBJECT_WRITE_SCOPES },
+      );
+
+      this.logger.log(`Copied ${bucketKey}/${objectKey} to ${targetKey}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(
+        `Failed to copy ${bucketKey}/${objectKey}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to copy object: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete an object
+   */
+  async deleteObject(bucketKey: string, objectKey: string): Promise<void> {
+    try {
+      await this.httpClient.delete(this.getObjectPath(bucketKey, objectKey), {
+        autodeskScopes: OBJECT_WRITE_SCOPES,
+      });
+      this.logger.log(`Deleted ${bucketKey}/${objectKey}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete ${bucketKey}/${objectKey}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to delete object: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create a URL that reads or writes an object without authentication
+   */
+  async createSignedUrl(
+    bucketKey: string,
+    objectKey: string,
+    options: CreateSignedUrlOptions = {},
+  ): Promise<OssSignedUrl> {
+    try {
+      const response = await this.httpClient.post(
+        `${this.getObjectPath(bucketKey, objectKey)}/signed`,
+        {
+          minutesExpiration: options.minutesExpiration ?? 60,
+          singleUse: options.singleUse ?? false,
+        },
+        { params: { access: options.access ?? 'read' }, autodeskScopes: OBJECT_WRITE_SCOPES },
+      );
+      return response.data;
+    } catch (error) {
+      this.logger.error(
+        `Failed to sign ${bucketKey}/${objectKey}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to create signed URL: ${error.message}`);
+    }
+  }
+
+  /**
+   * URN of an object, as used by Data Management storage and Model Derivative
+   */
+  toObjectId(bucketKey: string, objectKey: string): string {
+    return `urn:adsk.objects:os.object:${bucketKey}/${objectKey}`;
+  }
+
+  /**
+   * Split an OSS object URN into bucket key and object key
+   */
+  parseObjectId(objectId: string): { bucketKey: string; objectKey: string } {
+    const matches = objectId.match(/urn:adsk\.objects:os\.object:([^/]+)\/(.+)/);
+    if (!matches) {
+      throw new BadRequestException('Invalid object ID format');
+    }
+
+    const [, bucketKey, objectKey] = matches;
+    return { bucketKey, objectKey };
+  }
+
+  private getObjectPath(bucketKey: string, objectKey: string): string {
+    return `${BUCKETS_PATH}/${bucketKey}/objects/${encodeURIComponent(objectKey)}`;
+  }
+
+  /**
+   * Get signed upload URLs for a range of parts of an object
+   * Pass the uploadKey of an earlier call to get more URLs for the same upload
+   */
+  private async getSignedUploadUrls(
+    bucketKey: string,
+    objectKey: string,
+    firstPart: number,
+    parts: number,
+    uploadKey?: string,
+  ): Promise<{
+    urls: string[];
+    uploadKey: string;
+  }> {
+    try {
+      const response = await this.httpClient.get(
+        `${this.getObjectPath(bucketKey, objectKey)}/signeds3upload`,
+        {
+          params: {
+            minutesExpiration: 30,
+            firstPart,
+            parts,
+            uploadKey,
+          },
+          autodeskScopes: OBJECT_WRITE_SCOPES,
+        },
+      );
+
+      return {
+        urls: response.data.urls,
+        uploadKey: response.data.uploadKey,
+      };
+    } catch (error) {
+      this.logger.error('Failed to get signed upload URLs', describeError(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a file source to an object in parts, with bounded concurrency
+   * Returns the uploadKey needed to finalize the upload
+   */
+  private async uploadParts(
+    bucketKey: string,
+    objectKey: string,
+    source: OssUploadOptions,
+  ): Promise<string> {
+    const partSize = source.partSize || AUTODESK_UPLOAD_PART_SIZE;
+    // S3 rejects parts under 5 MB, except for the last one
+    if (partSize < AUTODESK_MIN_UPLOAD_PART_SIZE) {
+      throw new BadRequestException(
+        `partSize must be at least ${AUTODESK_MIN_UPLOAD_PART_SIZE} bytes, got ${partSize}`,
+      );
+    }
+    const concurrency = Math.max(1, source.concurrency || AUTODESK_UPLOAD_CONCURRENCY);
+    const contentType = source.contentType || 'application/octet-stream';
+    const totalBytes = await getUploadSize(source);
+    const totalParts =
+      totalBytes !== undefined ? Math.max(1, Math.ceil(totalBytes / partSize)) : undefined;
+
+    const urls = new Map<number, string>();
+    const batches = new Map<number, Promise<void>>();
+    let uploadKey: string | undefined;
+
+    const fetchUrls = async (firstPart: number, parts: number) => {
+      const result = await this.getSignedUploadUrls(
+        bucketKey,
+        objectKey,
+        firstPart,
+        parts,
+        uploadKey,
+      );
+      uploadKey = result.uploadKey;
+      result.urls.forEach((url, index) => urls.set(firstPart + index, url));
+    };
+
+    // Part URLs are requested in batches and shared between workers
+    const getPartUrl = async (partNumber: number): Promise<string> => {
+      if (!urls.has(partNumber)) {
+        const batchStart =
+          Math.floor((partNumber - 1) / AUTODESK_MAX_UPLOAD_URLS) * AUTODESK_MAX_UPLOAD_URLS + 1;
+        if (!batches.has(batchStart)) {
+          const count =
+            totalParts !== undefined
+              ? Math.min(AUTODESK_MAX_UPLOAD_URLS, totalParts - batchStart + 1)
+              : AUTODESK_MAX_UPLOAD_URLS;
+          batches.set(batchStart, fetchUrls(batchStart, count));
+        }
+        await batches.get(batchStart);
+      }
+      return urls.get(partNumber) as string;
+    };
+
+    const uploadPart = async (partNumber: number, data: Buffer) => {
+      for (let attempt = 0; ; attempt++) {
+        const url = await getPartUrl(partNumber);
+        try {
+          // Use axios without auth interceptor for S3 upload
+          await axios.put(url, data, {
+            headers: {
+              'Content-Type': contentType,
+              'Content-Length': data.length,
+            },
+            maxBodyLength: Infinity,
+            maxContentLength: Infinity,
+          });
+          return;
+        } catch (error) {
+          // S3 answers 403 once a signed URL has expired
+          if (error.response?.status === 403 && attempt === 0) {
+            this.logger.warn(`Signed URL for part ${partNumber} expired, refreshing`);
+            await fetchUrls(partNumber, 1);
+            continue;
+          }
+          this.logger.error(`Failed to upload part ${partNumber}`, error.message);
+          throw createAutodeskApiError(error, `PUT signed URL for part ${partNumber}`);
+        }
+      }
+    };
+
+    // Fetch the first batch up front so every later request shares its uploadKey
+    await getPartUrl(1);
+
+    const parts = readParts(source, partSize);
+    let bytesSent = 0;
+    let partsCompleted = 0;
+    let failed = false;
+
+    const worker = async () => {
+      while (!failed) {
+        const next = await parts.next();
+        if (next.done) return;
+
+        try {
+          await uploadPart(next.value.partNumber, next.value.data);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+
+        bytesSent += next.value.data.length;
+        partsCompleted++;
+        source.onProgress?.({ bytesSent, totalBytes, partsCompleted, totalParts });
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: concurrency }, () => worker()));
+    } finally {
+      // Close the source when a part failed and the workers stopped pulling parts
+      await parts.return(undefined);
+    }
+
+    this.logger.log(`Uploaded ${partsCompleted} part(s), ${bytesSent} bytes`);
+    return uploadKey as string;
+  }
+
+  /**
+   * Finalize an upload; the object exists from then on
+   */
+  private async completeUpload(
+    bucketKey: string,
+    objectKey: string,
+    uploadKey: string,
+    contentType?: string,
+  ): Promise<OssObject> {
+    try {
+      const response = await this.httpClient.post(
+        `${this.getObjectPath(bucketKey, objectKey)}/signeds3upload`,
+        { uploadKey },
+        {
+          headers: contentType ? { 'x-ads-meta-Content-Type': contentType } : undefined,
+          autodeskScopes: OBJECT_WRITE_SCOPES,
+        },
+      );
+
+      this.logger.log('Upload completed successfully');
+      return response.data;
+    } catch (error) {
+      this.logger.error('Failed to complete upload', describeError(error));
+      throw error;
+    }
+  }
+}
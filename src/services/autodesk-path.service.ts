@@ -0,0 +1,274 @@
+// src/services/autodesk-path.service.ts
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { AutodeskDataManagementService } from './autodesk-data-management.service';
+import { AutodeskUserContext } from '../context/autodesk-user.context';
+import { AUTODESK_ACC_OPTIONS, AUTODESK_PATH_CACHE_TTL } from '../constants';
+import { AutodeskAccModuleOptions } from '../interfaces/module-options.interface';
+import {
+  AutodeskFolder,
+  AutodeskItem,
+  AutodeskPathResolution,
+  AutodeskPlannedChange,
+  DryRunOptions,
+  DryRunResult,
+  NoDryRun,
+  UploadFileToPathOptions,
+} from '../interfaces';
+import { AutodeskConflictError, AutodeskNotFoundError } from '../errors/autodesk-api.error';
+import { isPlannedChange } from '../utils/safety.util';
+
+interface FolderContents {
+  folders: AutodeskFolder[];
+  items: AutodeskItem[];
+}
+
+/**
+ * Addresses folders and items by path, e.g. "/Project Files/Structural/Level 2"
+ * The first segment is a project top folder; folder listings are cached briefly, per user
+ */
+@Injectable()
+export class AutodeskPathService {
+  private readonly logger = new Logger(AutodeskPathService.name);
+  private readonly contents = new Map<
+    string,
+    { expiresAt: number; contents: Promise<FolderContents> }
+  >();
+
+  constructor(
+    private readonly dataManagement: AutodeskDataManagementService,
+    private readonly userContext: AutodeskUserContext,
+    @Inject(AUTODESK_ACC_OPTIONS)
+    private readonly options: AutodeskAccModuleOptions,
+  ) {}
+
+  /**
+   * Resolve a path to the folder or item it points to
+   */
+  async resolvePath(projectId: string, path: string): Promise<AutodeskPathResolution> {
+    const segments = this.splitPath(path);
+    if (segments.length === 0) {
+      throw new AutodeskNotFoundError('An empty path does not point to a folder or item', {
+        status: 404,
+      });
+    }
+
+    let folder = await this.findTopFolder(projectId, segments[0]);
+    let parentId: string | undefined;
+
+    for (let index = 1; index < segments.length; index++) {
+      const segment = segments[index];
+      const { folders, items } = await this.getContents(projectId, folder.id);
+
+      const childFolder = folders.find((candidate) => this.getName(candidate) === segment);
+      if (childFolder) {
+        parentId = folder.id;
+        folder = childFolder;
+        continue;
+      }
+
+      const item = items.find((candidate) => candidate.attributes?.displayName === segment);
+      if (item && index === segments.length - 1) {
+        return { type: 'items', path: this.joinPath(segments), item, parentId: folder.id };
+      }
+
+      throw this.segmentNotFound(segments, index);
+    }
+
+    return { type: 'folders', path: this.joinPath(segments), folder, parentId };
+  }
+
+  /**
+   * Resolve a path that must point to a folder
+   */
+  async resolveFolder(projectId: string, path: string): Promise<AutodeskFolder> {
+    const resolved = await this.resolvePath(projectId, path);
+    if (resolved.type !== 'folders') {
+      throw new AutodeskConflictError(`"${resolved.path}" is an item, not a folder`, {
+        status: 409,
+      });
+    }
+    return resolved.folder;
+  }
+
+  /**
+   * Make sure every folder of a path exists, creating missing ones (like mkdir -p)
+   * The top folder must already exist; with { dryRun: true } the first missing folder
+   * comes back as a planned change
+   */
+  ensurePath<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    path: string,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskFolder, O>>;
+  async ensurePath(
+    projectId: string,
+    path: string,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskFolder | AutodeskPlannedChange> {
+    const segments = this.splitPath(path);
+    if (segments.length === 0) {
+      throw new AutodeskNotFoundError('An empty path does not point to a folder', { status: 404 });
+    }
+
+    let folder = await this.findTopFolder(projectId, segments[0]);
+
+    for (let index = 1; index < segments.length; index++) {
+      const segment = segments[index];
+      const { folders, items } = await this.getContents(projectId, folder.id);
+
+      const existing = folders.find((candidate) => this.getName(candidate) === segment);
+      if (existing) {
+        folder = existing;
+        continue;
+      }
+
+      if (items.some((item) => item.attributes?.displayName === segment)) {
+        const folderPath = this.joinPath(segments.slice(0, index + 1));
+        throw new AutodeskConflictError(
+          `Cannot create folder "${folderPath}": an item with that name exists`,
+          { status: 409 },
+        );
+      }
+
+      this.logger.log(`Creating missing folder "${this.joinPath(segments.slice(0, index + 1))}"`);
+      const parentId = folder.id;
+      const created = await this.dataManagement.getOrCreateFolder(
+        projectId,
+        parentId,
+        segment,
+        safety,
+      );
+      if (isPlannedChange(created)) {
+        return { ...created, description: `Create "${this.joinPath(segments)}"` };
+      }
+      folder = created;
+      this.invalidate(projectId, parentId);
+    }
+
+    return folder;
+  }
+
+  /**
+   * Upload a file to a path, creating missing folders on the way
+   * The last path segment is the file name
+   */
+  uploadFileToPath<O extends DryRunOptions = NoDryRun>(
+    projectId: string,
+    path: string,
+    options: UploadFileToPathOptions,
+    safety?: O,
+  ): Promise<DryRunResult<AutodeskItem, O>>;
+  async uploadFileToPath(
+    projectId: string,
+    path: string,
+    options: UploadFileToPathOptions,
+    safety?: DryRunOptions,
+  ): Promise<AutodeskItem | AutodeskPlannedChange> {
+    const segments = this.splitPath(path);
+    if (segments.length < 2) {
+      throw new AutodeskNotFoundError(`"${path}" needs a folder and a file name`, { status: 404 });
+    }
+
+    const fileName = segments[segments.length - 1];
+    const folder = await this.ensurePath(projectId, this.joinPath(segments.slice(0, -1)), safety);
+    if (isPlannedChange(folder)) {
+      return {
+        dryRun: true,
+        operation: 'uploadFileToPath',
+        description: `Upload "${fileName}" to "${this.joinPath(segments.slice(0, -1))}"`,
+        method: 'POST',
+        url: `/data/v1/projects/${projectId}/items`,
+        steps: [folder],
+      };
+    }
+
+    const item = await this.dataManagement.uploadFile(
+      { ...options, projectId, folderId: folder.id, fileName },
+      safety,
+    );
+    this.invalidate(projectId, folder.id);
+
+    return item;
+  }
+
+  /**
+   * Forget cached folder listings, for one project or everything
+   */
+  clearCache(projectId?: string): void {
+    if (!projectId) {
+      this.contents.clear();
+      return;
+    }
+
+    for (const key of this.contents.keys()) {
+      if (key.startsWith(`${projectId}/`)) {
+        this.contents.delete(key);
+      }
+    }
+  }
+
+  private async findTopFolder(projectId: string, name: string): Promise<AutodeskFolder> {
+    const { folders } = await this.getContents(projectId);
+    const folder = folders.find((candidate) => this.getName(candidate) === name);
+    if (!folder) {
+      throw this.segmentNotFound([name], 0);
+    }
+    return folder;
+  }
+
+  /**
+   * Cached folder listing; without a folder ID this lists the project top folders
+   */
+  private getContents(projectId: string, folderId?: string): Promise<FolderContents> {
+    // Users see different listings in 3-legged mode, so each has their own entries
+    const key = `${projectId}/${folderId ?? ''}/${this.userContext.getUserId() ?? 'app'}`;
+    const cached = this.contents.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.contents;
+    }
+
+    const contents = folderId
+      ? this.dataManagement.getFolderContents(projectId, folderId)
+      : this.dataManagement
+          .getProjectTopFolders(projectId)
+          .then((folders) => ({ folders, items: [] }));
+
+    const ttl = this.options.pathCacheTtl ?? AUTODESK_PATH_CACHE_TTL;
+    this.contents.set(key, { expiresAt: Date.now() + ttl, contents });
+    contents.catch(() => this.contents.delete(key));
+
+    return contents;
+  }
+
+  /**
+   * Drop a changed folder's listing, for the current user and everyone else who cached it
+   */
+  private invalidate(projectId: string, folderId: string): void {
+    for (const key of this.contents.keys()) {
+      if (key.startsWith(`${projectId}/${folderId}/`)) {
+        this.contents.delete(key);
+      }
+    }
+  }
+
+  private segmentNotFound(segments: string[], index: number): AutodeskNotFoundError {
+    const parent =
+      index === 0 ? 'the project top folders' : `"${this.joinPath(segments.slice(0, index))}"`;
+    return new AutodeskNotFoundError(`"${segments[index]}" not found in ${parent}`, {
+      status: 404,
+      detail: `Missing path segment ${index + 1} of "${this.joinPath(segments)}"`,
+    });
+  }
+
+  private getName(folder: AutodeskFolder): string {
+    return folder.attributes?.name || folder.attributes?.displayName;
+  }
+
+  private splitPath(path: string): string[] {
+    return path.split('/').filter((segment) => segment.length > 0);
+  }
+
+  private joinPath(segments: string[]): string {
+    return `/${segments.join('/')}`;
+  }
+}
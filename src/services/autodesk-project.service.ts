@@ -1,38 +1,32 @@
 // src/services/autodesk-project.service.ts
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
-import axios, { AxiosInstance } from 'axios';
-import { AutodeskAuthService } from './autodesk-auth.service';
-import { AUTODESK_BASE_URL } from '../constants';
-import { AutodeskHub, AutodeskProject } from '../interfaces';
+import { AutodeskHttpClient } from './autodesk-http-client.service';
+import { AutodeskHub, AutodeskProject, PaginationOptions } from '../interfaces';
+import { describeError, rethrowAs } from '../errors/autodesk-api.error';
+import { collect, paginate } from '../utils/pagination.util';
 
 @Injectable()
 export class AutodeskProjectService {
   private readonly logger = new Logger(AutodeskProjectService.name);
-  private readonly httpClient: AxiosInstance;
 
-  constructor(private readonly authService: AutodeskAuthService) {
-    this.httpClient = axios.create({
-      baseURL: AUTODESK_BASE_URL,
-    });
+  constructor(private readonly httpClient: AutodeskHttpClient) {}
 
-    // Add request interceptor to attach auth token
-    this.httpClient.interceptors.request.use(async (config) => {
-      const token = await this.authService.getAccessToken();
-      config.headers.Authorization = `Bearer ${token}`;
-      return config;
-    });
+  /**
+   * Get all hubs (accounts) accessible to the user
+   */
+  async getHubs(options: PaginationOptions = {}): Promise<AutodeskHub[]> {
+    return collect(this.iterateHubs(options));
   }
 
   /**
-   * Get all hubs (accounts) accessible to the user
+   * Iterate over all hubs page by page
    */
-  async getHubs(): Promise<AutodeskHub[]> {
+  async *iterateHubs(options: PaginationOptions = {}): AsyncGenerator<AutodeskHub> {
     try {
-      const response = await this.httpClient.get('/project/v1/hubs');
-      return response.data.data;
+      yield* paginate<AutodeskHub>(this.httpClient, '/project/v1/hubs', options);
     } catch (error) {
-      this.logger.error('Failed to fetch hubs', error.response?.data || error.message);
-      throw new Error('Failed to fetch Autodesk hubs');
+      this.logger.error('Failed to fetch hubs', describeError(error));
+      rethrowAs(error, new Error('Failed to fetch Autodesk hubs'));
     }
   }
 
@@ -44,24 +38,37 @@ export class AutodeskProjectService {
       const response = await this.httpClient.get(`/project/v1/hubs/${hubId}`);
       return response.data.data;
     } catch (error) {
-      this.logger.error(`Failed to fetch hub ${hubId}`, error.response?.data || error.message);
-      throw new NotFoundException(`Hub ${hubId} not found`);
+      this.logger.error(`Failed to fetch hub ${hubId}`, describeError(error));
+      rethrowAs(error, new NotFoundException(`Hub ${hubId} not found`));
     }
   }
 
   /**
    * Get all projects within a hub
    */
-  async getProjects(hubId: string): Promise<AutodeskProject[]> {
+  async getProjects(hubId: string, options: PaginationOptions = {}): Promise<AutodeskProject[]> {
+    return collect(this.iterateProjects(hubId, options));
+  }
+
+  /**
+   * Iterate over the projects of a hub page by page
+   */
+  async *iterateProjects(
+    hubId: string,
+    options: PaginationOptions = {},
+  ): AsyncGenerator<AutodeskProject> {
     try {
-      const response = await this.httpClient.get(`/project/v1/hubs/${hubId}/projects`);
-      return response.data.data;
+      yield* paginate<AutodeskProject>(
+        this.httpClient,
+        `/project/v1/hubs/${hubId}/projects`,
+        options,
+      );
     } catch (error) {
       this.logger.error(
         `Failed to fetch projects for hub ${hubId}`,
-        error.response?.data || error.message,
+        describeError(error),
       );
-      throw new Error(`Failed to fetch projects for hub ${hubId}`);
+      rethrowAs(error, new Error(`Failed to fetch projects for hub ${hubId}`));
     }
   }
 
@@ -77,27 +84,34 @@ export class AutodeskProjectService {
     } catch (error) {
       this.logger.error(
         `Failed to fetch project ${projectId}`,
-        error.response?.data || error.message,
+        describeError(error),
       );
-      throw new NotFoundException(`Project ${projectId} not found`);
+      rethrowAs(error, new NotFoundException(`Project ${projectId} not found`));
     }
   }
 
   /**
    * Get top folders for a project
    */
-  async getProjectTopFolders(hubId: string, projectId: string): Promise<any[]> {
+  async getProjectTopFolders(
+    hubId: string,
+    projectId: string,
+    options: PaginationOptions = {},
+  ): Promise<any[]> {
     try {
-      const response = await this.httpClient.get(
-        `/project/v1/hubs/${hubId}/projects/${projectId}/topFolders`,
+      return await collect(
+        paginate(
+          this.httpClient,
+          `/project/v1/hubs/${hubId}/projects/${projectId}/topFolders`,
+          options,
+        ),
       );
-      return response.data.data;
     } catch (error) {
       this.logger.error(
         `Failed to fetch top folders for project ${projectId}`,
-        error.response?.data || error.message,
+        describeError(error),
       );
-      throw new Error(`Failed to fetch top folders for project ${projectId}`);
+      rethrowAs(error, new Error(`Failed to fetch top folders for project ${projectId}`));
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,160 @@
+// src/services/autodesk-webhooks.service.ts
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common';
+import { AutodeskHttpClient } from './autodesk-http-client.service';
+import { AUTODESK_ACC_OPTIONS } from '../constants';
+import {
+  AutodeskAccModuleOptions,
+  AutodeskDmEventType,
+  AutodeskWebhook,
+  CreateWebhookOptions,
+  UpdateWebhookOptions,
+} from '../interfaces';
+import { AutodeskApiError, describeError, rethrowAs } from '../errors/autodesk-api.error';
+import { collect, paginate } from '../utils/pagination.util';
+
+const WEBHOOKS_PATH = '/webhooks/v1';
+const DATA_EVENTS_PATH = `${WEBHOOKS_PATH}/systems/data/events`;
+
+/**
+ * Manages Data Management webhooks: Autodesk calls back a URL when something
+ * changes in a folder (or any of its subfolders)
+ */
+@Injectable()
+export class AutodeskWebhooksService {
+  private readonly logger = new Logger(AutodeskWebhooksService.name);
+
+  constructor(
+    private readonly httpClient: AutodeskHttpClient,
+    @Inject(AUTODESK_ACC_OPTIONS)
+    private readonly options: AutodeskAccModuleOptions,
+  ) {}
+
+  /**
+   * Create a hook for an event on a folder
+   */
+  async createHook(hook: CreateWebhookOptions): Promise<AutodeskWebhook> {
+    const callbackUrl = hook.callbackUrl ?? this.options.webhooks?.callbackUrl;
+    if (!callbackUrl) {
+      throw new BadRequestException('A callbackUrl is required to create a webhook');
+    }
+
+    try {
+      const response = await this.httpClient.post(`${DATA_EVENTS_PATH}/${hook.event}/hooks`, {
+        callbackUrl,
+        scope: { folder: hook.folderId },
+        hookAttribute: hook.hookAttribute,
+        filter: hook.filter,
+        autoReactivateHook: hook.autoReactivateHook,
+        hookExpiry: hook.hookExpiry,
+        hubId: hook.hubId,
+        projectId: hook.projectId,
+      });
+
+      // The hook is not in the response body, only its URL in the Location header
+      const location: string | undefined = response.headers?.location;
+      const hookId = location?.split('/').pop();
+      if (!hookId) {
+        throw new BadRequestException(`No hook ID returned for ${hook.event}`);
+      }
+
+      this.logger.log(`Created ${hook.event} hook ${hookId} on ${hook.folderId}`);
+      return this.getHook(hook.event, hookId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to create ${hook.event} hook on ${hook.folderId}`,
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to create webhook: ${error.message}`);
+    }
+  }
+
+  /**
+   * List all hooks of the application
+   */
+  async listHooks(): Promise<AutodeskWebhook[]> {
+    return collect(this.iterateHooks());
+  }
+
+  /**
+   * Iterate over the hooks of the application page by page
+   */
+  async *iterateHooks(): AsyncGenerator<AutodeskWebhook> {
+    try {
+      yield* paginate<AutodeskWebhook>(this.httpClient, `${WEBHOOKS_PATH}/hooks`);
+    } catch (error) {
+      this.logger.error('Failed to fetch webhooks', describeError(error));
+      rethrowAs(error, `Failed to fetch webhooks: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a hook
+   */
+  async getHook(event: AutodeskDmEventType | string, hookId: string): Promise<AutodeskWebhook> {
+    try {
+      const response = await this.httpClient.get(`${DATA_EVENTS_PATH}/${event}/hooks/${hookId}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to fetch hook ${hookId}`, describeError(error));
+      rethrowAs(error, `Failed to fetch webhook: ${error.message}`);
+    }
+  }
+
+  /**
+   * Update a hook's status, filter, attribute or expiry
+   */
+  async updateHook(
+    event: AutodeskDmEventType | string,
+    hookId: string,
+    changes: UpdateWebhookOptions,
+  ): Promise<AutodeskWebhook> {
+    try {
+      await this.httpClient.patch(`${DATA_EVENTS_PATH}/${event}/hooks/${hookId}`, changes);
+      return this.getHook(event, hookId);
+    } catch (error) {
+      this.logger.error(`Failed to update hook ${hookId}`, describeError(error));
+      rethrowAs(error, `Failed to update webhook: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a hook
+   */
+  async deleteHook(event: AutodeskDmEventType | string, hookId: string): Promise<void> {
+    try {
+      await this.httpClient.delete(`${DATA_EVENTS_PATH}/${event}/hooks/${hookId}`);
+      this.logger.log(`Deleted ${event} hook ${hookId}`);
+    } catch (error) {
+      this.logger.error(`Failed to delete hook ${hookId}`, describeError(error));
+      rethrowAs(error, `Failed to delete webhook: ${error.message}`);
+    }
+  }
+
+  /**
+   * Register the secret Autodesk signs callbacks with (default: webhooks.secret)
+   * Replaces the current secret if one is already registered
+   */
+  async setSecretToken(token: string | undefined = this.options.webhooks?.secret): Promise<void> {
+    if (!token) {
+      throw new BadRequestException('A webhook secret is required');
+    }
+
+    try {
+      try {
+        await this.httpClient.post(`${WEBHOOKS_PATH}/tokens`, { token });
+      } catch (error) {
+        if (!(error instanceof AutodeskApiError) || ![400, 409].includes(error.status)) {
+          throw error;
+        }
+        await this.httpClient.put(`${WEBHOOKS_PATH}/tokens/@me`, { token });
+      }
+      this.logger.log('Registered the webhook secret');
+    } catch (error) {
+      this.logger.error(
+        'Failed to register the webhook secret',
+        describeError(error),
+      );
+      rethrowAs(error, `Failed to register the webhook secret: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,585 @@
+// src/services/folder-sync.service.ts
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, readFile, readdir, rename, stat, unlink, writeFile } from 'fs/promises';
+import { dirname, join, posix, resolve } from 'path';
+import { AutodeskDataManagementService } from './autodesk-data-management.service';
+import {
+  AUTODESK_ACC_OPTIONS,
+  AUTODESK_SYNC_MANIFEST,
+  AUTODESK_UPLOAD_CONCURRENCY,
+} from '../constants';
+import {
+  AutodeskAccModuleOptions,
+  AutodeskFolderTreeNode,
+  AutodeskItem,
+  AutodeskPlannedChange,
+  DryRunOptions,
+  FolderSyncConflictPolicy,
+  FolderSyncFileState,
+  FolderSyncManifest,
+  FolderSyncManifestEntry,
+  FolderSyncMode,
+  FolderSyncOptions,
+  FolderSyncPlan,
+  FolderSyncPlanEntry,
+  FolderSyncResult,
+  LocalFileState,
+  RemoteFileState,
+} from '../interfaces';
+import { runTaskQueue } from '../utils/concurrency.util';
+import { isPlannedChange, resolveDryRun } from '../utils/safety.util';
+
+/**
+ * Mirrors a local directory with an ACC folder, one way or both ways
+ * Sync state is kept in a manifest file so reruns only transfer what changed
+ */
+@Injectable()
+export class FolderSyncService {
+  private readonly logger = new Logger(FolderSyncService.name);
+
+  constructor(
+    private readonly dataManagement: AutodeskDataManagementService,
+    @Inject(AUTODESK_ACC_OPTIONS)
+    private readonly options: AutodeskAccModuleOptions,
+  ) {}
+
+  /**
+   * Plan and apply a sync
+   */
+  async sync(options: FolderSyncOptions): Promise<FolderSyncResult> {
+    const plan = await this.plan(options);
+    return this.apply(plan, options);
+  }
+
+  /**
+   * Compare the local directory with the ACC folder and the last sync state
+   */
+  async plan(options: FolderSyncOptions): Promise<FolderSyncPlan> {
+    const mode = options.mode ?? 'bidirectional';
+    const manifest = await this.readManifest(options);
+    const [localFiles, remote] = await Promise.all([
+      this.scanLocal(options),
+      this.scanRemote(options),
+    ]);
+
+    const plan: FolderSyncPlan = {
+      projectId: options.projectId,
+      folderId: options.folderId,
+      localPath: options.localPath,
+      mode,
+      entries: [],
+      unchanged: [],
+      remoteFolders: remote.folders,
+    };
+
+    const paths = new Set([
+      ...localFiles.keys(),
+      ...remote.files.keys(),
+      ...Object.keys(manifest.files),
+    ]);
+
+    const states: FolderSyncFileState[] = [...paths]
+      .sort()
+      .filter((path) => !options.filter || options.filter(path))
+      .map((path) => ({ path, local: localFiles.get(path), remote: remote.files.get(path) }));
+
+    // Planning may hash local files and look up remote versions, so files are planned in parallel
+    const entries = new Map<string, FolderSyncPlanEntry | undefined>();
+    const concurrency = options.concurrency ?? AUTODESK_UPLOAD_CONCURRENCY;
+    await runTaskQueue(states, concurrency, async (state) => {
+      const entry = await this.planFile(state, manifest.files[state.path], mode, options);
+      entries.set(state.path, entry);
+    });
+
+    for (const state of states) {
+      const entry = entries.get(state.path);
+      if (entry) {
+        plan.entries.push(entry);
+      } else if (state.local || state.remote) {
+        plan.unchanged.push(state);
+      }
+    }
+
+    this.logger.log(
+      `Sync plan for ${options.localPath}: ${plan.entries.length} change(s), ` +
+        `${plan.unchanged.length} unchanged`,
+    );
+    return plan;
+  }
+
+  /**
+   * Apply a sync plan and update the manifest
+   * With dryRun nothing is changed locally and remote changes are only planned;
+   * safety.dryRun refuses to apply a plan without it
+   */
+  async apply(plan: FolderSyncPlan, options: FolderSyncOptions): Promise<FolderSyncResult> {
+    const dryRun = resolveDryRun(this.options.safety, options);
+    const manifest = await this.readManifest(options);
+    const result: FolderSyncResult = {
+      plan,
+      applied: [],
+      skipped: [],
+      failed: [],
+      planned: [],
+      manifestPath: this.getManifestPath(options),
+    };
+
+    const folders = new Map<string, Promise<string | AutodeskPlannedChange>>(
+      Object.entries(plan.remoteFolders).map(([path, id]) => [path, Promise.resolve(id)]),
+    );
+    const ensureFolder = (path: string): Promise<string | AutodeskPlannedChange> => {
+      if (!folders.has(path)) {
+        folders.set(path, this.createRemoteFolder(plan, path, ensureFolder, { dryRun }));
+      }
+      return folders.get(path) as Promise<string | AutodeskPlannedChange>;
+    };
+
+    const concurrency = options.concurrency ?? AUTODESK_UPLOAD_CONCURRENCY;
+    await runTaskQueue(plan.entries, concurrency, async (entry) => {
+      if (entry.action === 'conflict' || (dryRun && this.isLocalAction(entry))) {
+        result.skipped.push(entry);
+        return;
+      }
+
+      try {
+        const change = await this.applyEntry(plan, entry, ensureFolder, { dryRun });
+        if (isPlannedChange(change)) {
+          result.planned.push(change);
+          return;
+        }
+
+        if (change) {
+          manifest.files[entry.path] = change;
+        } else {
+          delete manifest.files[entry.path];
+        }
+        result.applied.push(entry);
+      } catch (error) {
+        this.logger.error(`Failed to ${entry.action} ${entry.path}`, error.message);
+        result.failed.push({ entry, error: error.message });
+      }
+    });
+
+    if (dryRun) {
+      return result;
+    }
+
+    // Record files found in sync, and refresh entries whose local file was only touched
+    for (const state of plan.unchanged) {
+      const synced = manifest.files[state.path];
+      if (state.local && state.remote && synced?.mtimeMs !== state.local.mtimeMs) {
+        manifest.files[state.path] = await this.createManifestEntry(plan, state.path, state.remote);
+      }
+    }
+
+    // Forget files that are gone on both sides
+    const known = new Set([...plan.entries, ...plan.unchanged].map((state) => state.path));
+    for (const path of Object.keys(manifest.files)) {
+      if (!known.has(path) && (!options.filter || options.filter(path))) {
+        delete manifest.files[path];
+      }
+    }
+
+    manifest.projectId = plan.projectId;
+    manifest.folderId = plan.folderId;
+    manifest.syncedAt = new Date().toISOString();
+    await this.writeManifest(result.manifestPath, manifest);
+
+    this.logger.log(
+      `Synced ${plan.localPath}: ${result.applied.length} applied, ` +
+        `${result.skipped.length} skipped, ${result.failed.length} failed`,
+    );
+    return result;
+  }
+
+  /**
+   * Decide what to do with one file; undefined when nothing needs to happen
+   */
+  private async planFile(
+    state: FolderSyncFileState,
+    synced: FolderSyncManifestEntry | undefined,
+    mode: FolderSyncMode,
+    options: FolderSyncOptions,
+  ): Promise<FolderSyncPlanEntry | undefined> {
+    const { local, remote } = state;
+    const localChanged = local ? await this.hasLocalChanged(options, state, synced) : false;
+    const remoteChanged = remote ? !synced || remote.versionId !== synced.versionId : false;
+    const entry = (action: FolderSyncPlanEntry['action'], reason: string) => ({
+      ...state,
+      action,
+      reason,
+    });
+
+    if (local && remote) {
+      if (!synced) {
+        // Never synced: only files with the same content on both sides count as in sync
+        if (await this.hasSameContent(options, state)) {
+          return undefined;
+        }
+      } else if (!localChanged && !remoteChanged) {
+        return undefined;
+      }
+
+      if (mode === 'push') {
+        return entry('uploadVersion', 'Local file differs from ACC');
+      }
+      if (mode === 'pull') {
+        return entry('download', 'ACC item differs from local file');
+      }
+      if (synced && !(localChanged && remoteChanged)) {
+        return localChanged
+          ? entry('uploadVersion', 'Changed locally')
+          : entry('download', 'Changed in ACC');
+      }
+
+      return this.resolveConflict(
+        state,
+        options.conflictPolicy ?? 'skip',
+        synced ? 'Changed on both sides' : 'Differs on both sides and was never synced',
+      );
+    }
+
+    if (local) {
+      if (synced && options.propagateDeletes && mode !== 'push' && !localChanged) {
+        return entry('deleteLocal', 'Deleted in ACC');
+      }
+      if (mode === 'pull') {
+        return undefined;
+      }
+      return entry('upload', synced ? 'Deleted in ACC, uploading again' : 'New local file');
+    }
+
+    if (remote) {
+      if (synced && options.propagateDeletes && mode !== 'pull' && !remoteChanged) {
+        return entry('deleteRemote', 'Deleted locally');
+      }
+      if (mode === 'push') {
+        return undefined;
+      }
+      return entry('download', synced ? 'Deleted locally, downloading again' : 'New in ACC');
+    }
+
+    return undefined;
+  }
+
+  private resolveConflict(
+    state: FolderSyncFileState,
+    policy: FolderSyncConflictPolicy,
+    reason: string,
+  ): FolderSyncPlanEntry {
+    let action: FolderSyncPlanEntry['action'] = 'conflict';
+
+    if (policy === 'local') {
+      action = 'uploadVersion';
+    } else if (policy === 'remote') {
+      action = 'download';
+    } else if (policy === 'newest') {
+      const remoteTime = Date.parse(state.remote?.lastModifiedTime ?? '');
+      action = (state.local?.mtimeMs ?? 0) >= remoteTime ? 'uploadVersion' : 'download';
+    }
+
+    return {
+      ...state,
+      action,
+      reason: action === 'conflict' ? reason : `${reason}, resolved by "${policy}"`,
+    };
+  }
+
+  /**
+   * Carry out one plan entry; returns the new manifest entry, undefined when the
+   * file is gone, or a planned change in dry-run mode
+   */
+  private async applyEntry(
+    plan: FolderSyncPlan,
+    entry: FolderSyncPlanEntry,
+    ensureFolder: (path: string) => Promise<string | AutodeskPlannedChange>,
+    safety: DryRunOptions,
+  ): Promise<FolderSyncManifestEntry | AutodeskPlannedChange | undefined> {
+    const localFile = this.getLocalFile(plan.localPath, entry.path);
+    const fileName = posix.basename(entry.path);
+
+    switch (entry.action) {
+      case 'upload': {
+        const folderId = await ensureFolder(posix.dirname(entry.path).replace(/^\.$/, ''));
+        if (isPlannedChange(folderId)) {
+          return folderId;
+        }
+
+        const item = await this.dataManagement.uploadFile(
+          {
+            projectId: plan.projectId,
+            folderId,
+            fileName,
+            filePath: localFile,
+            onConflict: 'newVersion',
+          },
+          safety,
+        );
+        if (isPlannedChange(item)) {
+          return item;
+        }
+        return this.createManifestEntry(plan, entry.path, this.getRemoteState(item));
+      }
+
+      case 'uploadVersion': {
+        const item = await this.dataManagement.uploadNewVersion(
+          plan.projectId,
+          entry.remote?.itemId as string,
+          { fileName, filePath: localFile },
+          safety,
+        );
+        if (isPlannedChange(item)) {
+          return item;
+        }
+        return this.createManifestEntry(plan, entry.path, this.getRemoteState(item));
+      }
+
+      case 'download': {
+        const remote = entry.remote as RemoteFileState;
+        const partial = `${localFile}.partial`;
+
+        await mkdir(dirname(localFile), { recursive: true });
+        await this.dataManagement.downloadToFile(plan.projectId, remote.itemId, partial, {
+          versionId: remote.versionId,
+        });
+        await rename(partial, localFile);
+
+        return this.createManifestEntry(plan, entry.path, remote);
+      }
+
+      case 'deleteLocal':
+        await unlink(localFile);
+        return undefined;
+
+      case 'deleteRemote': {
+        const change = await this.dataManagement.deleteItem(
+          plan.projectId,
+          entry.remote?.itemId as string,
+          safety,
+        );
+        return change || undefined;
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Create a missing remote folder below its (possibly also missing) parent
+   */
+  private async createRemoteFolder(
+    plan: FolderSyncPlan,
+    path: string,
+    ensureFolder: (path: string) => Promise<string | AutodeskPlannedChange>,
+    safety: DryRunOptions,
+  ): Promise<string | AutodeskPlannedChange> {
+    const parentId = await ensureFolder(posix.dirname(path).replace(/^\.$/, ''));
+    if (isPlannedChange(parentId)) {
+      return parentId;
+    }
+
+    const folder = await this.dataManagement.getOrCreateFolder(
+      plan.projectId,
+      parentId,
+      posix.basename(path),
+      safety,
+    );
+    return isPlannedChange(folder) ? folder : folder.id;
+  }
+
+  /**
+   * Whether a local file differs from its last synced state; an mtime change
+   * alone is confirmed with a hash
+   */
+  private async hasLocalChanged(
+    options: FolderSyncOptions,
+    state: FolderSyncFileState,
+    synced: FolderSyncManifestEntry | undefined,
+  ): Promise<boolean> {
+    const local = state.local as LocalFileState;
+    if (!synced || synced.size !== local.size) {
+      return true;
+    }
+    if (synced.mtimeMs === local.mtimeMs) {
+      return false;
+    }
+
+    local.hash = await this.hashFile(this.getLocalFile(options.localPath, state.path));
+    return local.hash !== synced.hash;
+  }
+
+  /**
+   * List the files below the local directory by relative path
+   */
+  private async scanLocal(options: FolderSyncOptions): Promise<Map<string, LocalFileState>> {
+    const manifestPath = resolve(this.getManifestPath(options));
+    const files = new Map<string, LocalFileState>();
+
+    const visit = async (directory: string, prefix: string) => {
+      for (const entry of await readdir(directory, { withFileTypes: true })) {
+        const fullPath = join(directory, entry.name);
+        const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+
+        if (entry.isDirectory()) {
+          await visit(fullPath, path);
+        } else if (
+          entry.isFile() &&
+          resolve(fullPath) !== manifestPath &&
+          !entry.name.endsWith('.partial')
+        ) {
+          const { size, mtimeMs } = await stat(fullPath);
+          files.set(path, { size, mtimeMs });
+        }
+      }
+    };
+
+    await mkdir(options.localPath, { recursive: true });
+    await visit(options.localPath, '');
+    return files;
+  }
+
+  /**
+   * List the items and folders below the ACC folder by relative path
+   */
+  private async scanRemote(options: FolderSyncOptions): Promise<{
+    files: Map<string, RemoteFileState>;
+    folders: Record<string, string>;
+  }> {
+    const tree = await this.dataManagement.getFolderTree(options.projectId, options.folderId, {
+      includeItems: true,
+    });
+
+    const files = new Map<string, RemoteFileState>();
+    const folders: Record<string, string> = {};
+
+    const visit = (node: AutodeskFolderTreeNode) => {
+      // An incomplete listing would make missing files look deleted
+      if (node.error) {
+        throw new BadRequestException(
+          `Cannot plan sync: listing "${node.path}" failed: ${node.error.message}`,
+        );
+      }
+
+      const prefix = node.path.slice(tree.path.length).replace(/^\//, '');
+      folders[prefix] = node.id;
+
+      for (const item of node.items ?? []) {
+        const path = prefix
+          ? `${prefix}/${item.attributes.displayName}`
+          : item.attributes.displayName;
+        files.set(path, this.getRemoteState(item));
+      }
+      node.children.forEach(visit);
+    };
+    visit(tree);
+
+    return { files, folders };
+  }
+
+  private getRemoteState(item: AutodeskItem): RemoteFileState {
+    return {
+      itemId: item.id,
+      versionId: item.relationships?.tip?.data?.id as string,
+      lastModifiedTime: item.attributes.lastModifiedTime,
+    };
+  }
+
+  /**
+   * Whether a local file and an ACC item have the same content, by size and then SHA-1
+   * Without a SHA-1 from ACC the files cannot be shown to match and count as different
+   */
+  private async hasSameContent(
+    options: FolderSyncOptions,
+    state: FolderSyncFileState,
+  ): Promise<boolean> {
+    const local = state.local as LocalFileState;
+    const remote = state.remote as RemoteFileState;
+    const download = await this.dataManagement.getVersionDownloadInfo(
+      options.projectId,
+      remote.versionId,
+    );
+    remote.size = download.size;
+    remote.sha1 = download.sha1;
+
+    if (remote.size !== local.size || !remote.sha1) {
+      return false;
+    }
+    const localSha1 = await this.hashFile(this.getLocalFile(options.localPath, state.path), 'sha1');
+    return localSha1 === remote.sha1.toLowerCase();
+  }
+
+  private async createManifestEntry(
+    plan: FolderSyncPlan,
+    path: string,
+    remote: RemoteFileState,
+  ): Promise<FolderSyncManifestEntry> {
+    const localFile = this.getLocalFile(plan.localPath, path);
+    const { size, mtimeMs } = await stat(localFile);
+
+    return {
+      size,
+      mtimeMs,
+      hash: await this.hashFile(localFile),
+      itemId: remote.itemId,
+      versionId: remote.versionId,
+      lastModifiedTime: remote.lastModifiedTime,
+    };
+  }
+
+  private async readManifest(options: FolderSyncOptions): Promise<FolderSyncManifest> {
+    const empty: FolderSyncManifest = {
+      version: 1,
+      projectId: options.projectId,
+      folderId: options.folderId,
+      syncedAt: '',
+      files: {},
+    };
+
+    let manifest: FolderSyncManifest;
+    try {
+      manifest = JSON.parse(await readFile(this.getManifestPath(options), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return empty;
+      }
+      throw new BadRequestException(`Failed to read sync manifest: ${error.message}`);
+    }
+
+    // A manifest of another folder says nothing about this one
+    if (manifest.projectId !== options.projectId || manifest.folderId !== options.folderId) {
+      this.logger.warn(`Ignoring sync manifest of folder ${manifest.folderId}`);
+      return empty;
+    }
+    return manifest;
+  }
+
+  private async writeManifest(path: string, manifest: FolderSyncManifest): Promise<void> {
+    // Write next to the manifest and rename, so an interrupted write keeps the old one
+    const partial = `${path}.partial`;
+    await writeFile(partial, JSON.stringify(manifest, null, 2));
+    await rename(partial, path);
+  }
+
+  private getManifestPath(options: FolderSyncOptions): string {
+    return options.manifestPath ?? join(options.localPath, AUTODESK_SYNC_MANIFEST);
+  }
+
+  private getLocalFile(localPath: string, path: string): string {
+    return join(localPath, ...path.split('/'));
+  }
+
+  private isLocalAction(entry: FolderSyncPlanEntry): boolean {
+    return entry.action === 'download' || entry.action === 'deleteLocal';
+  }
+
+  private async hashFile(filePath: string, algorithm = 'sha256'): Promise<string> {
+    const hash = createHash(algorithm);
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+}
@@ -0,0 +1,310 @@
+// src/services/folder-watcher.service.ts
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, extname } from 'path';
+import { Observable } from 'rxjs';
+import { AutodeskDataManagementService } from './autodesk-data-management.service';
+import { AutodeskEventBus } from '../events/autodesk-event-bus';
+import {
+  AUTODESK_TREE_CONCURRENCY,
+  AUTODESK_WATCH_INTERVAL,
+  AUTODESK_WATCH_MAX_INTERVAL,
+} from '../constants';
+import {
+  AutodeskDmEventType,
+  AutodeskItem,
+  FolderWatchChange,
+  FolderWatchEntry,
+  FolderWatchEvent,
+  FolderWatchOptions,
+  FolderWatchPollResult,
+  FolderWatchSnapshot,
+} from '../interfaces';
+import { runTaskQueue } from '../utils/concurrency.util';
+
+interface ScanTask {
+  folderId: string;
+  rootId: string;
+  path: string;
+  depth: number;
+}
+
+/**
+ * Change feed for deployments that cannot receive webhooks: polls folders and
+ * reports what changed since the last snapshot as webhook-shaped events
+ */
+@Injectable()
+export class FolderWatcherService {
+  private readonly logger = new Logger(FolderWatcherService.name);
+
+  constructor(
+    private readonly dataManagement: AutodeskDataManagementService,
+    private readonly eventBus: AutodeskEventBus,
+  ) {}
+
+  /**
+   * Poll the folders while subscribed, backing off after failed polls
+   * Each subscription polls on its own; share() the stream to fan it out
+   */
+  watch(options: FolderWatchOptions): Observable<FolderWatchEvent> {
+    const interval = options.interval ?? AUTODESK_WATCH_INTERVAL;
+    const multiplier = options.backoff?.multiplier ?? 2;
+    const maxInterval = options.backoff?.maxInterval ?? AUTODESK_WATCH_MAX_INTERVAL;
+    const maxFailures = options.backoff?.maxFailures;
+
+    return new Observable<FolderWatchEvent>((subscriber) => {
+      let snapshot: FolderWatchSnapshot | undefined;
+      let failures = 0;
+      let stopped = false;
+      let timer: NodeJS.Timeout | undefined;
+
+      const tick = async () => {
+        try {
+          const result = await this.poll(options, snapshot);
+          snapshot = result.snapshot;
+          failures = 0;
+          result.events.forEach((event) => subscriber.next(event));
+        } catch (error) {
+          failures++;
+          this.logger.warn(`Watch poll failed (${failures} in a row): ${error.message}`);
+          if (maxFailures && failures >= maxFailures) {
+            subscriber.error(error);
+            return;
+          }
+        }
+
+        if (!stopped) {
+          const delay = failures
+            ? Math.min(interval * multiplier ** failures, maxInterval)
+            : interval;
+          timer = setTimeout(tick, delay);
+        }
+      };
+
+      void tick();
+      return () => {
+        stopped = true;
+        clearTimeout(timer);
+      };
+    });
+  }
+
+  /**
+   * Scan the folders once and compare with the previous snapshot
+   * Without a previous snapshot, the one at snapshotPath is used; the new one is saved there
+   */
+  async poll(
+    options: FolderWatchOptions,
+    previous?: FolderWatchSnapshot | null,
+  ): Promise<FolderWatchPollResult> {
+    const last = previous === undefined ? await this.readSnapshot(options) : previous;
+    const snapshot = await this.scan(options);
+
+    let events: FolderWatchEvent[] = [];
+    if (last) {
+      events = this.diff(last, snapshot);
+    } else if (options.emitInitial) {
+      events = this.diff({ ...snapshot, entries: {} }, snapshot);
+    }
+
+    if (options.snapshotPath) {
+      await this.writeSnapshot(options.snapshotPath, snapshot);
+    }
+
+    if (events.length) {
+      this.logger.log(`Watch found ${events.length} change(s) in project ${options.projectId}`);
+    }
+    if (options.publish ?? true) {
+      events.forEach((event) => this.eventBus.emit(event));
+    }
+
+    return { snapshot, events };
+  }
+
+  /**
+   * Current state of the watched folders
+   */
+  async scan(options: FolderWatchOptions): Promise<FolderWatchSnapshot> {
+    const entries: Record<string, FolderWatchEntry> = {};
+    const initial = options.folderIds.map((folderId) => ({
+      folderId,
+      rootId: folderId,
+      path: '',
+      depth: 0,
+    }));
+
+    // A failed listing fails the scan, so its contents are never reported as deleted
+    await runTaskQueue<ScanTask>(
+      initial,
+      options.concurrency ?? AUTODESK_TREE_CONCURRENCY,
+      async (task) => {
+        const { folders, items } = await this.dataManagement.getFolderContents(
+          options.projectId,
+          task.folderId,
+        );
+
+        for (const resource of [...folders, ...items]) {
+          const name = resource.attributes.displayName || resource.attributes.name;
+          entries[resource.id] = {
+            id: resource.id,
+            kind: resource.type === 'folders' ? 'folder' : 'item',
+            name,
+            path: task.path ? `${task.path}/${name}` : name,
+            parentId: task.folderId,
+            rootId: task.rootId,
+            lastModifiedTime: resource.attributes.lastModifiedTime,
+            lastModifiedUserId: resource.attributes.lastModifiedUserId,
+            versionId: (resource as AutodeskItem).relationships?.tip?.data?.id,
+          };
+        }
+
+        if (options.depth !== undefined && task.depth >= options.depth) {
+          return;
+        }
+        return folders.map((folder) => ({
+          folderId: folder.id,
+          rootId: task.rootId,
+          path: entries[folder.id].path,
+          depth: task.depth + 1,
+        }));
+      },
+    );
+
+    return {
+      version: 1,
+      projectId: options.projectId,
+      folderIds: options.folderIds,
+      takenAt: new Date().toISOString(),
+      entries,
+    };
+  }
+
+  /**
+   * Events for what changed between two snapshots
+   * Entries are moved when their parent changes but their tip version does not (a move touches
+   * the modified time); items are otherwise modified when their modified time or tip version
+   * changes, while folder times change with every file in them and are ignored
+   * Entries below a renamed or moved folder keep their ID and parent, so only the folder is
+   * reported
+   */
+  diff(previous: FolderWatchSnapshot, current: FolderWatchSnapshot): FolderWatchEvent[] {
+    const events: FolderWatchEvent[] = [];
+
+    for (const entry of Object.values(current.entries)) {
+      const before = previous.entries[entry.id];
+      if (!before) {
+        events.push(this.toEvent('added', entry, current.projectId));
+        continue;
+      }
+
+      const moved = before.parentId !== entry.parentId;
+      if (before.name !== entry.name) {
+        events.push(this.toEvent('renamed', entry, current.projectId, before));
+      } else if (moved && before.versionId === entry.versionId) {
+        events.push(this.toEvent('moved', entry, current.projectId, before));
+      } else if (
+        moved ||
+        (entry.kind === 'item' &&
+          (before.lastModifiedTime !== entry.lastModifiedTime ||
+            before.versionId !== entry.versionId))
+      ) {
+        events.push(this.toEvent('modified', entry, current.projectId, before));
+      }
+    }
+
+    for (const before of Object.values(previous.entries)) {
+      if (!current.entries[before.id]) {
+        events.push(this.toEvent('deleted', before, current.projectId));
+      }
+    }
+
+    return events.sort((a, b) => a.payload.path.localeCompare(b.payload.path));
+  }
+
+  /**
+   * Build the event a Data Management webhook would deliver for the change
+   */
+  private toEvent(
+    change: FolderWatchChange,
+    entry: FolderWatchEntry,
+    projectId: string,
+    before?: FolderWatchEntry,
+  ): FolderWatchEvent {
+    const resourceUrn = entry.versionId ?? entry.id;
+
+    return {
+      event: this.getEventType(change, entry, before),
+      resourceUrn,
+      scope: entry.rootId,
+      payload: {
+        change,
+        kind: entry.kind,
+        path: entry.path,
+        name: entry.name,
+        ext: entry.kind === 'item' ? extname(entry.name).slice(1) || undefined : undefined,
+        source: resourceUrn,
+        lineageUrn: entry.kind === 'item' ? entry.id : undefined,
+        parentFolderUrn: entry.parentId,
+        sourceFolderUrn: change === 'moved' ? before?.parentId : undefined,
+        targetFolderUrn: change === 'moved' ? entry.parentId : undefined,
+        project: projectId,
+        modifiedBy: entry.lastModifiedUserId,
+        modifiedTime: entry.lastModifiedTime,
+        previousName: change === 'renamed' ? before?.name : undefined,
+        previousPath: before && before.path !== entry.path ? before.path : undefined,
+      },
+      receivedAt: new Date(),
+    };
+  }
+
+  private getEventType(
+    change: FolderWatchChange,
+    entry: FolderWatchEntry,
+    before?: FolderWatchEntry,
+  ): AutodeskDmEventType {
+    if (entry.kind === 'folder') {
+      return change === 'added' || change === 'deleted' || change === 'moved'
+        ? `dm.folder.${change}`
+        : 'dm.folder.modified';
+    }
+    if (change === 'added' || change === 'deleted' || change === 'moved') {
+      return `dm.version.${change}`;
+    }
+    // Webhooks report a new tip version as an added version
+    return before?.versionId !== entry.versionId ? 'dm.version.added' : 'dm.version.modified';
+  }
+
+  private async readSnapshot(options: FolderWatchOptions): Promise<FolderWatchSnapshot | null> {
+    if (!options.snapshotPath) {
+      return null;
+    }
+
+    let snapshot: FolderWatchSnapshot;
+    try {
+      snapshot = JSON.parse(await readFile(options.snapshotPath, 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw new BadRequestException(`Failed to read watch snapshot: ${error.message}`);
+    }
+
+    // A snapshot of other folders says nothing about these ones
+    const sameFolders =
+      snapshot.folderIds?.length === options.folderIds.length &&
+      options.folderIds.every((folderId) => snapshot.folderIds.includes(folderId));
+    if (snapshot.projectId !== options.projectId || !sameFolders) {
+      this.logger.warn(`Ignoring watch snapshot of other folders at ${options.snapshotPath}`);
+      return null;
+    }
+    return snapshot;
+  }
+
+  private async writeSnapshot(path: string, snapshot: FolderWatchSnapshot): Promise<void> {
+    // Write next to the snapshot and rename, so an interrupted write keeps the old one
+    await mkdir(dirname(path), { recursive: true });
+    const partial = `${path}.partial`;
+    await writeFile(partial, JSON.stringify(snapshot, null, 2));
+    await rename(partial, path);
+  }
+}
@@ -0,0 +1,158 @@
+// src/services/project-hub-resolver.service.ts
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { AutodeskProjectService } from './autodesk-project.service';
+import { AutodeskUserContext } from '../context/autodesk-user.context';
+import {
+  AUTODESK_ACC_OPTIONS,
+  AUTODESK_HUB_CACHE_TTL,
+  AUTODESK_HUB_MISS_CACHE_TTL,
+} from '../constants';
+import { AutodeskAccModuleOptions } from '../interfaces/module-options.interface';
+import { AutodeskNotFoundError } from '../errors/autodesk-api.error';
+
+interface HubCacheEntry {
+  // null records a recent miss
+  hubId: string | null;
+  expiresAt: number;
+}
+
+/**
+ * Finds the hub a project belongs to, so project-only methods don't need a hub ID
+ * Mappings are cached per user with a TTL and can be seeded by the caller
+ */
+@Injectable()
+export class ProjectHubResolver {
+  private readonly logger = new Logger(ProjectHubResolver.name);
+  // Scanned mappings per user, or 'app' outside withUser
+  private readonly hubs = new Map<string, Map<string, HubCacheEntry>>();
+  private readonly seeded = new Map<string, string>();
+  private readonly pendingScans = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly projectService: AutodeskProjectService,
+    private readonly userContext: AutodeskUserContext,
+    @Inject(AUTODESK_ACC_OPTIONS)
+    private readonly options: AutodeskAccModuleOptions,
+  ) {}
+
+  /**
+   * Get the hub ID of a project, scanning hubs and projects on a cache miss
+   */
+  async resolveHubId(projectId: string): Promise<string> {
+    const scope = this.getScope();
+    let entry = this.getCachedEntry(scope, projectId);
+
+    if (entry === undefined) {
+      await this.scanHubs(scope);
+
+      entry = this.getCachedEntry(scope, projectId);
+      if (!entry) {
+        // Remember the miss briefly so unknown projects don't rescan every hub each time
+        this.setEntry(scope, projectId, null, AUTODESK_HUB_MISS_CACHE_TTL);
+      }
+    }
+
+    if (!entry?.hubId) {
+      throw new AutodeskNotFoundError(`No accessible hub contains project ${projectId}`, {
+        status: 404,
+        detail: 'The project was not found in any hub returned by getHubs',
+      });
+    }
+    return entry.hubId;
+  }
+
+  /**
+   * Record known project-to-hub mappings, e.g. from your own database
+   * Seeded mappings apply to every user and never expire
+   */
+  seed(projectId: string, hubId: string): void;
+  seed(mappings: Record<string, string>): void;
+  seed(projectIdOrMappings: string | Record<string, string>, hubId?: string): void {
+    const mappings =
+      typeof projectIdOrMappings === 'string'
+        ? { [projectIdOrMappings]: hubId as string }
+        : projectIdOrMappings;
+
+    for (const [projectId, mappedHubId] of Object.entries(mappings)) {
+      this.seeded.set(projectId, mappedHubId);
+    }
+  }
+
+  /**
+   * Forget one or all cached and seeded mappings, for every user
+   */
+  clear(projectId?: string): void {
+    if (projectId) {
+      this.seeded.delete(projectId);
+      for (const entries of this.hubs.values()) {
+        entries.delete(projectId);
+      }
+    } else {
+      this.seeded.clear();
+      this.hubs.clear();
+    }
+  }
+
+  private getScope(): string {
+    return this.userContext.getUserId() ?? 'app';
+  }
+
+  private getCachedEntry(
+    scope: string,
+    projectId: string,
+  ): { hubId: string | null } | undefined {
+    const seededHubId = this.seeded.get(projectId);
+    if (seededHubId) {
+      return { hubId: seededHubId };
+    }
+
+    const entry = this.hubs.get(scope)?.get(projectId);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return entry;
+  }
+
+  private setEntry(scope: string, projectId: string, hubId: string | null, ttl: number): void {
+    let entries = this.hubs.get(scope);
+    if (!entries) {
+      entries = new Map();
+      this.hubs.set(scope, entries);
+    }
+    entries.set(projectId, { hubId, expiresAt: Date.now() + ttl });
+  }
+
+  /**
+   * Walk every hub's projects once and cache all mappings found for the user
+   * Concurrent misses of the same user share the same scan; a hub that fails is skipped
+   */
+  private scanHubs(scope: string): Promise<void> {
+    let pendingScan = this.pendingScans.get(scope);
+    if (!pendingScan) {
+      pendingScan = (async () => {
+        this.logger.log('Scanning hubs to resolve project hub IDs');
+
+        const ttl = this.options.hubCacheTtl ?? AUTODESK_HUB_CACHE_TTL;
+        const hubs = await this.projectService.getHubs();
+        let found = 0;
+        for (const hub of hubs) {
+          try {
+            for await (const project of this.projectService.iterateProjects(hub.id)) {
+              this.setEntry(scope, project.id, hub.id, ttl);
+              found++;
+            }
+          } catch (error) {
+            this.logger.warn(`Skipping hub ${hub.id} while resolving projects: ${error.message}`);
+          }
+        }
+
+        this.logger.log(`Cached hub IDs for ${found} project(s)`);
+      })().finally(() => {
+        this.pendingScans.delete(scope);
+      });
+      this.pendingScans.set(scope, pendingScan);
+    }
+
+    return pendingScan;
+  }
+}
@@ -0,0 +1,21 @@
+import { AutodeskAuthContext, AutodeskTokenStore } from '../interfaces/auth.interface';
+
+/**
+ * Token store that keeps 3-legged tokens in process memory
+ * Tokens are lost on restart and not shared between instances
+ */
+export class InMemoryTokenStore implements AutodeskTokenStore {
+  private readonly tokens = new Map<string, AutodeskAuthContext>();
+
+  async get(userId: string): Promise<AutodeskAuthContext | null> {
+    return this.tokens.get(userId) ?? null;
+  }
+
+  async set(userId: string, context: AutodeskAuthContext): Promise<void> {
+    this.tokens.set(userId, context);
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.tokens.delete(userId);
+  }
+}
@@ -0,0 +1,33 @@
+import { AutodeskAuthContext, AutodeskTokenStore } from '../interfaces/auth.interface';
+
+/**
+ * Minimal client shape shared by ioredis and node-redis
+ */
+export interface RedisTokenStoreClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+/**
+ * Token store that keeps 3-legged tokens in Redis (or any client with get/set/del)
+ */
+export class RedisTokenStore implements AutodeskTokenStore {
+  constructor(
+    private readonly client: RedisTokenStoreClient,
+    private readonly keyPrefix = 'autodesk:token:',
+  ) {}
+
+  async get(userId: string): Promise<AutodeskAuthContext | null> {
+    const value = await this.client.get(this.keyPrefix + userId);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async set(userId: string, context: AutodeskAuthContext): Promise<void> {
+    await this.client.set(this.keyPrefix + userId, JSON.stringify(context));
+  }
+
+  async delete(userId: string): Promise<void> {
+    await this.client.del(this.keyPrefix + userId);
+  }
+}
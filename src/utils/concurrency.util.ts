@@ -0,0 +1,44 @@
+/**
+ * Process a growing queue of tasks with at most `concurrency` running at once
+ * Each task may return follow-up tasks, which are queued behind the current ones
+ */
+export async function runTaskQueue<T>(
+  initial: T[],
+  concurrency: number,
+  worker: (task: T) => Promise<T[] | void>,
+): Promise<void> {
+  const queue = [...initial];
+  let active = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    let failed = false;
+
+    const next = () => {
+      if (failed) return;
+      if (queue.length === 0 && active === 0) {
+        resolve();
+        return;
+      }
+
+      while (active < Math.max(1, concurrency) && queue.length > 0) {
+        const task = queue.shift() as T;
+        active++;
+
+        worker(task)
+          .then((followUps) => {
+            if (followUps) {
+              queue.push(...followUps);
+            }
+            active--;
+            next();
+          })
+          .catch((error) => {
+            failed = true;
+            reject(error);
+          });
+      }
+    };
+
+    next();
+  });
+}
@@ -0,0 +1,65 @@
+import { ModelObjectProperties, ModelPropertyRow } from '../interfaces/model-derivative.interface';
+
+type PropertyValue = string | number | boolean | null;
+
+/**
+ * Flatten an object's grouped properties into a table row with "Group/Property" keys
+ */
+export function toPropertyRow(object: ModelObjectProperties): ModelPropertyRow {
+  const properties: Record<string, PropertyValue> = {};
+
+  const visit = (value: any, key: string) => {
+    if (Array.isArray(value)) {
+      properties[key] = value.join(', ');
+    } else if (value !== null && typeof value === 'object') {
+      for (const [name, child] of Object.entries(value)) {
+        visit(child, key ? `${key}/${name}` : name);
+      }
+    } else if (key) {
+      properties[key] = value ?? null;
+    }
+  };
+  visit(object.properties ?? {}, '');
+
+  // Revit puts the category in a hidden "__category__" group, IFC and others in a "Category"
+  const categoryKey =
+    Object.keys(properties).find((key) => key.startsWith('__category__/')) ??
+    Object.keys(properties).find((key) => key.split('/').pop() === 'Category');
+
+  return {
+    dbId: object.objectid,
+    externalId: object.externalId,
+    name: object.name,
+    category: categoryKey ? String(properties[categoryKey]) : undefined,
+    properties,
+  };
+}
+
+/**
+ * Serialize a property table as CSV, one column per property found in any row
+ */
+export function propertyTableToCsv(rows: ModelPropertyRow[]): string {
+  const keys = [...new Set(rows.flatMap((row) => Object.keys(row.properties)))].sort();
+  const lines = [['dbId', 'externalId', 'name', 'category', ...keys].map(escapeCsv).join(',')];
+
+  for (const row of rows) {
+    const values = [
+      row.dbId,
+      row.externalId,
+      row.name,
+      row.category,
+      ...keys.map((key) => row.properties[key]),
+    ];
+    lines.push(values.map(escapeCsv).join(','));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeCsv(value: PropertyValue | undefined): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
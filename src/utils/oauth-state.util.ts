@@ -0,0 +1,54 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * Contents of the OAuth state parameter used by AutodeskAuthController
+ */
+export interface AutodeskOAuthState {
+  expiresAt: number;
+  userId?: string;
+  returnTo?: string;
+  codeVerifier?: string;
+}
+
+/**
+ * Seal a state payload with AES-256-GCM so it can't be read or forged by the client
+ * The PKCE code verifier travels inside it, which keeps the login flow stateless
+ * Nothing records used states, so a captured state can be replayed until it expires;
+ * keep stateTtl short, and the callback still rejects a state sealed for another user
+ */
+export function sealState(state: AutodeskOAuthState, secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(secret), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(state), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+/**
+ * Open a sealed state, returning null when it was tampered with or has expired
+ */
+export function openState(sealed: string, secret: string): AutodeskOAuthState | null {
+  try {
+    const data = Buffer.from(sealed, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(secret), data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const decrypted = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]);
+
+    const state: AutodeskOAuthState = JSON.parse(decrypted.toString('utf8'));
+    return Date.now() < state.expiresAt ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a PKCE code verifier and its S256 code challenge
+ */
+export function createPkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+function deriveKey(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
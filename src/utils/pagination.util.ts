@@ -0,0 +1,71 @@
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { PaginationOptions } from '../interfaces/pagination.interface';
+import { AutodeskHttpClient } from '../services/autodesk-http-client.service';
+
+/**
+ * Iterate over the resources of a JSON:API list endpoint, following links.next
+ */
+export async function* paginate<T>(
+  httpClient: AutodeskHttpClient,
+  url: string,
+  options: PaginationOptions = {},
+  config: AxiosRequestConfig = {},
+): AsyncGenerator<T> {
+  // Asking for a specific page returns only that page unless told otherwise
+  const followNext = options.followNext ?? options.pageNumber === undefined;
+
+  let nextUrl: string | undefined = url;
+  let nextParams: Record<string, any> | undefined = {
+    ...config.params,
+    'page[limit]': options.pageLimit,
+    'page[number]': options.pageNumber,
+  };
+
+  while (nextUrl) {
+    const response: AxiosResponse = await httpClient.get(nextUrl, { ...config, params: nextParams });
+
+    for (const resource of response.data.data ?? []) {
+      yield resource;
+    }
+
+    // links.next is either a URL or a { href } object, and already carries the query
+    const next: string | { href: string } | undefined = response.data.links?.next;
+    nextUrl = followNext ? (typeof next === 'string' ? next : next?.href) : undefined;
+    nextParams = undefined;
+  }
+}
+
+/**
+ * Iterate over the items of an OSS list endpoint ({ items, next }), following next
+ */
+export async function* paginateItems<T>(
+  httpClient: AutodeskHttpClient,
+  url: string,
+  config: AxiosRequestConfig = {},
+): AsyncGenerator<T> {
+  let nextUrl: string | undefined = url;
+  let nextParams: Record<string, any> | undefined = config.params;
+
+  while (nextUrl) {
+    const response: AxiosResponse = await httpClient.get(nextUrl, { ...config, params: nextParams });
+
+    for (const item of response.data.items ?? []) {
+      yield item;
+    }
+
+    // next already carries the query, including startAt
+    nextUrl = response.data.next || undefined;
+    nextParams = undefined;
+  }
+}
+
+/**
+ * Collect every resource of an async iterable into an array
+ */
+export async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const resources: T[] = [];
+  for await (const resource of iterable) {
+    resources.push(resource);
+  }
+  return resources;
+}
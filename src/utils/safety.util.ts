@@ -0,0 +1,38 @@
+import { AutodeskForbiddenError } from '../errors/autodesk-api.error';
+import {
+  AutodeskPlannedChange,
+  AutodeskSafetyOptions,
+  DryRunOptions,
+} from '../interfaces/safety.interface';
+
+/**
+ * Whether a data management result is a planned change rather than a resource
+ */
+export function isPlannedChange(value: unknown): value is AutodeskPlannedChange {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'dryRun' in value &&
+    (value as { dryRun?: unknown }).dryRun === true
+  );
+}
+
+/**
+ * Whether to plan changes instead of sending them; safety.dryRun refuses changes that were
+ * not made with dryRun: true, since their callers expect the real result
+ */
+export function resolveDryRun(
+  safety: AutodeskSafetyOptions | undefined,
+  options: DryRunOptions | undefined,
+): boolean {
+  if (options?.dryRun) {
+    return true;
+  }
+  if (safety?.dryRun) {
+    throw new AutodeskForbiddenError('safety.dryRun is enabled, so changes are not sent', {
+      status: 403,
+      detail: 'Pass dryRun: true to plan the changes instead',
+    });
+  }
+  return false;
+}
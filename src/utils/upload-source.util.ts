@@ -0,0 +1,72 @@
+import { BadRequestException } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { OssUploadOptions } from '../interfaces/oss.interface';
+
+/**
+ * Determine the total upload size, if it is known up front
+ */
+export async function getUploadSize(source: OssUploadOptions): Promise<number | undefined> {
+  const sources = [source.fileBuffer, source.fileStream, source.filePath].filter(
+    (candidate) => candidate !== undefined,
+  );
+  if (sources.length !== 1) {
+    throw new BadRequestException('Exactly one of fileBuffer, fileStream or filePath is required');
+  }
+
+  if (source.fileBuffer) {
+    return source.fileBuffer.length;
+  }
+  if (source.filePath) {
+    return (await stat(source.filePath)).size;
+  }
+  return source.fileSize;
+}
+
+/**
+ * Split the upload source into numbered parts of partSize bytes
+ */
+export async function* readParts(
+  source: OssUploadOptions,
+  partSize: number,
+): AsyncGenerator<{ partNumber: number; data: Buffer }> {
+  const stream: Readable | undefined = source.fileBuffer
+    ? undefined
+    : source.filePath
+      ? createReadStream(source.filePath)
+      : source.fileStream;
+  const chunks: AsyncIterable<Buffer> | Buffer[] = stream ?? [source.fileBuffer as Buffer];
+
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+  let partNumber = 1;
+
+  try {
+    for await (const chunk of chunks) {
+      let data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+
+      while (pendingBytes + data.length >= partSize) {
+        const take = partSize - pendingBytes;
+        pending.push(data.subarray(0, take));
+        yield { partNumber: partNumber++, data: Buffer.concat(pending) };
+        pending = [];
+        pendingBytes = 0;
+        data = data.subarray(take);
+      }
+
+      if (data.length > 0) {
+        pending.push(data);
+        pendingBytes += data.length;
+      }
+    }
+
+    // Always yield at least one part so empty files still upload
+    if (pendingBytes > 0 || partNumber === 1) {
+      yield { partNumber, data: Buffer.concat(pending) };
+    }
+  } finally {
+    // Also runs when the upload stops early: release the file handle or the caller's stream
+    stream?.destroy();
+  }
+}
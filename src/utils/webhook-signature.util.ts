@@ -0,0 +1,25 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Signature Autodesk sends in x-adsk-signature: "sha1hash=" + HMAC-SHA1 of the raw body
+ */
+export function signWebhookPayload(rawBody: Buffer | string, secret: string): string {
+  return `sha1hash=${createHmac('sha1', secret).update(rawBody).digest('hex')}`;
+}
+
+/**
+ * Check an x-adsk-signature header against the raw request body
+ */
+export function verifyWebhookSignature(
+  rawBody: Buffer | string,
+  signature: string | undefined,
+  secret: string,
+): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(rawBody, secret));
+  const received = Buffer.from(signature.trim().toLowerCase());
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}